@@ -1,15 +1,20 @@
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import { Toaster } from 'react-hot-toast';
 import Login from './pages/Login';
+import Register from './pages/Register';
 import Dashboard from './pages/Dashboard';
 import Skills from './pages/Skills';
 import Projects from './pages/Projects';
+import ProjectCalendar from './pages/ProjectCalendar';
 import Education from './pages/Education';
 import Experience from './pages/Experience';
 import Certifications from './pages/Certifications';
 import UserDetails from './pages/UserDetails';
+import Account from './pages/Account';
+import Team from './pages/Team';
 import DashboardLayout from './components/layout/DashboardLayout';
 import ProtectedRoute from './components/ProtectedRoute';
+import { config } from './lib/config';
 import './index.css';
 
 function App() {
@@ -41,6 +46,9 @@ function App() {
 
       <Routes>
         <Route path="/login" element={<Login />} />
+        {config.registrationEnabled && (
+          <Route path="/register" element={<Register />} />
+        )}
 
         <Route
           path="/"
@@ -56,7 +64,24 @@ function App() {
           <Route path="education" element={<Education />} />
           <Route path="certifications" element={<Certifications />} />
           <Route path="projects" element={<Projects />} />
-          <Route path="user-details" element={<UserDetails />} />
+          <Route path="projects/calendar" element={<ProjectCalendar />} />
+          <Route
+            path="user-details"
+            element={
+              <ProtectedRoute permission="profile:manage">
+                <UserDetails />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="team"
+            element={
+              <ProtectedRoute permission="team:manage">
+                <Team />
+              </ProtectedRoute>
+            }
+          />
+          <Route path="account" element={<Account />} />
         </Route>
 
         <Route path="*" element={<Navigate to="/" replace />} />
@@ -1,15 +1,42 @@
-import { Navigate } from 'react-router-dom';
+import { useEffect } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
 import { useAuthStore } from '@/store/authStore';
+import { buildLoginPath } from '@/lib/redirect';
+import { hasPermission, type Permission } from '@/lib/permissions';
 
 interface ProtectedRouteProps {
     children: React.ReactNode;
+    permission?: Permission;
 }
 
-export default function ProtectedRoute({ children }: ProtectedRouteProps) {
+export default function ProtectedRoute({ children, permission }: ProtectedRouteProps) {
+    const location = useLocation();
     const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+    const isAllowed = useAuthStore((state) => !permission || hasPermission(state.user, permission));
+    const isLoading = useAuthStore((state) => state.isLoading);
+    const checkAuth = useAuthStore((state) => state.checkAuth);
+
+    useEffect(() => {
+        if (useAuthStore.getState().isLoading) {
+            checkAuth();
+        }
+    }, [checkAuth]);
+
+    if (isLoading) {
+        return (
+            <div className="min-h-screen flex items-center justify-center bg-gray-950">
+                <Loader2 className="w-10 h-10 text-primary-500 animate-spin" />
+            </div>
+        );
+    }
 
     if (!isAuthenticated) {
-        return <Navigate to="/login" replace />;
+        return <Navigate to={buildLoginPath(location)} replace />;
+    }
+
+    if (!isAllowed) {
+        return <Navigate to="/" replace />;
     }
 
     return <>{children}</>;
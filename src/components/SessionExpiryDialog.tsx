@@ -0,0 +1,145 @@
+import { useCallback, useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { Clock, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import Modal from '@/components/ui/Modal';
+import { authService } from '@/services/auth';
+import { useAuthStore } from '@/store/authStore';
+import { useNow } from '@/hooks/useNow';
+import { formatCountdown } from '@/lib/time';
+import { hasUnsavedWork, saveUnsavedWork } from '@/lib/unsavedWork';
+
+const WARNING_THRESHOLD_MS = 5 * 60 * 1000;
+// Unsaved work is saved this long before the session ends, while it can still refresh its access token.
+const SAVE_LEAD_MS = 30 * 1000;
+
+export default function SessionExpiryDialog() {
+    const logout = useAuthStore((state) => state.logout);
+    const now = useNow();
+    const [isExtending, setIsExtending] = useState(false);
+    const [isSigningOut, setIsSigningOut] = useState(false);
+    const [saveErrors, setSaveErrors] = useState<string[]>([]);
+
+    const expiresAt = authService.getSessionExpiry();
+    const remaining = expiresAt !== null ? expiresAt - SAVE_LEAD_MS - now : null;
+    const isOpen = remaining !== null && remaining <= WARNING_THRESHOLD_MS;
+    const hasExpired = remaining !== null && remaining <= 0;
+
+    // Signs out only once everything is saved; otherwise the dialog stays open with the reasons.
+    const handleSaveAndSignOut = useCallback(async () => {
+        setIsSigningOut(true);
+        const errors = await saveUnsavedWork();
+        if (errors.length > 0) {
+            setSaveErrors(errors);
+            setIsSigningOut(false);
+            return;
+        }
+        await logout();
+    }, [logout]);
+
+    const handleSignOutAnyway = async () => {
+        setIsSigningOut(true);
+        await logout();
+    };
+
+    const handleStaySignedIn = async () => {
+        setIsExtending(true);
+        try {
+            await authService.refreshSession();
+            setSaveErrors([]);
+            toast.success('Session extended');
+        } catch {
+            toast.error('Could not extend your session. Please sign in again.');
+        } finally {
+            setIsExtending(false);
+        }
+    };
+
+    useEffect(() => {
+        if (!hasExpired) return;
+
+        if (hasUnsavedWork()) {
+            toast('Your session is ending. Saving your changes...');
+        }
+        handleSaveAndSignOut();
+    }, [hasExpired, handleSaveAndSignOut]);
+
+    if (!isOpen || remaining === null) {
+        return null;
+    }
+
+    const isBusy = isExtending || isSigningOut;
+
+    return (
+        <Modal
+            open={isOpen}
+            onOpenChange={() => undefined}
+            title="Your session is about to expire"
+            description="For your security, you will be signed out soon."
+            disabled
+        >
+            <div className="space-y-6">
+                <div className="flex items-center justify-center gap-3 py-4">
+                    <Clock className="w-8 h-8 text-yellow-500" />
+                    <span className="text-4xl font-mono font-semibold text-white tabular-nums">
+                        {formatCountdown(remaining)}
+                    </span>
+                </div>
+
+                {saveErrors.length > 0 ? (
+                    <div className="rounded-lg border border-red-600/40 bg-red-600/10 px-4 py-3 text-sm text-red-200">
+                        <p className="font-medium">Your changes were not saved, so you are still signed in.</p>
+                        <ul className="mt-1 list-disc pl-5">
+                            {saveErrors.map((error) => (
+                                <li key={error}>{error}</li>
+                            ))}
+                        </ul>
+                        <p className="mt-1">Stay signed in to fix them, or sign out and discard them.</p>
+                    </div>
+                ) : (
+                    hasUnsavedWork() && (
+                        <p className="text-sm text-gray-400">
+                            You have unsaved changes. They will be saved before you are signed out.
+                        </p>
+                    )
+                )}
+
+                <div className="flex gap-3">
+                    <Button
+                        type="button"
+                        variant="outline"
+                        onClick={saveErrors.length > 0 ? handleSignOutAnyway : handleSaveAndSignOut}
+                        disabled={isBusy}
+                        className="flex-1"
+                    >
+                        {isSigningOut ? (
+                            <>
+                                <Loader2 className="w-4 h-4 animate-spin" />
+                                Signing out...
+                            </>
+                        ) : saveErrors.length > 0 ? (
+                            'Sign out anyway'
+                        ) : (
+                            'Save and sign out'
+                        )}
+                    </Button>
+                    <Button
+                        type="button"
+                        onClick={handleStaySignedIn}
+                        disabled={isBusy}
+                        className="flex-1"
+                    >
+                        {isExtending ? (
+                            <>
+                                <Loader2 className="w-4 h-4 animate-spin" />
+                                Extending...
+                            </>
+                        ) : (
+                            'Stay signed in'
+                        )}
+                    </Button>
+                </div>
+            </div>
+        </Modal>
+    );
+}
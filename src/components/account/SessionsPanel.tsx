@@ -0,0 +1,170 @@
+import { useState, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import { formatDistanceToNow } from 'date-fns';
+import { Loader2, Monitor, Smartphone, LogOut } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import ConfirmDialog from '@/components/ui/ConfirmDialog';
+import { sessionsService } from '@/services/sessions';
+import { useAbortController } from '@/hooks/useAbortController';
+import { isAbortError } from '@/lib/apiError';
+import type { Session } from '@/types';
+
+const isMobileDevice = (device: string) => /mobile|android|iphone|ipad/i.test(device);
+
+export default function SessionsPanel() {
+    const createAbortController = useAbortController();
+    const [sessions, setSessions] = useState<Session[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [revokingId, setRevokingId] = useState<string | null>(null);
+    const [confirmDialog, setConfirmDialog] = useState<{ open: boolean; sessionId: string | null }>({ open: false, sessionId: null });
+    const [isConfirmAllOpen, setIsConfirmAllOpen] = useState(false);
+
+    useEffect(() => {
+        const controller = new AbortController();
+        loadSessions(controller.signal);
+        return () => controller.abort();
+    }, []);
+
+    const loadSessions = async (signal?: AbortSignal) => {
+        try {
+            const data = await sessionsService.getAll(signal);
+            setSessions(data);
+        } catch (error) {
+            if (!isAbortError(error)) {
+                toast.error('Failed to load sessions');
+            }
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const confirmRevoke = async () => {
+        if (!confirmDialog.sessionId) return;
+
+        setRevokingId(confirmDialog.sessionId);
+        try {
+            await sessionsService.revoke(confirmDialog.sessionId, createAbortController().signal);
+            toast.success('Session revoked');
+            await loadSessions(createAbortController().signal);
+        } catch (error) {
+            if (!isAbortError(error)) {
+                toast.error('Failed to revoke session');
+            }
+        } finally {
+            setRevokingId(null);
+        }
+    };
+
+    const confirmRevokeOthers = async () => {
+        setRevokingId('others');
+        try {
+            await sessionsService.revokeOthers(createAbortController().signal);
+            toast.success('Signed out of all other sessions');
+            await loadSessions(createAbortController().signal);
+        } catch (error) {
+            if (!isAbortError(error)) {
+                toast.error('Failed to revoke sessions');
+            }
+        } finally {
+            setRevokingId(null);
+        }
+    };
+
+    const otherSessions = sessions.filter((session) => !session.current);
+
+    return (
+        <div className="bg-gray-900 border border-gray-800 rounded-xl p-8">
+            <div className="flex items-center justify-between mb-6 gap-4">
+                <h2 className="text-xl font-semibold text-white">Active Sessions</h2>
+                {otherSessions.length > 0 && (
+                    <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setIsConfirmAllOpen(true)}
+                        disabled={revokingId !== null}
+                    >
+                        {revokingId === 'others' ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                        ) : (
+                            <LogOut className="w-4 h-4" />
+                        )}
+                        <span className="hidden sm:inline">Sign out other sessions</span>
+                    </Button>
+                )}
+            </div>
+
+            {isLoading ? (
+                <div className="flex items-center justify-center h-24">
+                    <Loader2 className="w-6 h-6 text-primary-500 animate-spin" />
+                </div>
+            ) : sessions.length === 0 ? (
+                <p className="text-sm text-gray-400">No active sessions found.</p>
+            ) : (
+                <ul className="space-y-3">
+                    {sessions.map((session) => {
+                        const DeviceIcon = isMobileDevice(session.device) ? Smartphone : Monitor;
+                        return (
+                            <li
+                                key={session.id}
+                                className="flex items-center gap-4 bg-gray-800 rounded-lg px-4 py-3"
+                            >
+                                <DeviceIcon className="w-5 h-5 text-gray-400 flex-shrink-0" />
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm font-medium text-white truncate">
+                                        {session.device}
+                                        {session.current && (
+                                            <span className="ml-2 text-xs font-medium px-2 py-0.5 rounded-full bg-primary-600/20 text-primary-400">
+                                                This device
+                                            </span>
+                                        )}
+                                    </p>
+                                    <p className="text-xs text-gray-400 truncate">
+                                        {session.ipAddress ?? 'Unknown IP'} &middot; Last active{' '}
+                                        {formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}
+                                    </p>
+                                </div>
+                                {!session.current && (
+                                    <Button
+                                        type="button"
+                                        size="sm"
+                                        variant="ghost"
+                                        onClick={() => setConfirmDialog({ open: true, sessionId: session.id })}
+                                        disabled={revokingId !== null}
+                                        className="text-red-500 hover:text-red-400"
+                                    >
+                                        {revokingId === session.id ? (
+                                            <Loader2 className="w-4 h-4 animate-spin" />
+                                        ) : (
+                                            'Revoke'
+                                        )}
+                                    </Button>
+                                )}
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+
+            <ConfirmDialog
+                open={confirmDialog.open}
+                onClose={() => setConfirmDialog({ open: false, sessionId: null })}
+                onConfirm={confirmRevoke}
+                title="Revoke Session"
+                message="This device will be signed out on its next request."
+                confirmText="Revoke"
+                cancelText="Cancel"
+            />
+
+            <ConfirmDialog
+                open={isConfirmAllOpen}
+                onClose={() => setIsConfirmAllOpen(false)}
+                onConfirm={confirmRevokeOthers}
+                title="Sign Out Other Sessions"
+                message="Every session except this one will be signed out on its next request."
+                confirmText="Sign Out"
+                cancelText="Cancel"
+            />
+        </div>
+    );
+}
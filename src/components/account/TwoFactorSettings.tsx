@@ -0,0 +1,248 @@
+import { useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import toast from 'react-hot-toast';
+import { Copy, Loader2, ShieldCheck, ShieldOff } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { twoFactorService } from '@/services/twoFactor';
+import { useAbortController } from '@/hooks/useAbortController';
+import { isAbortError } from '@/lib/apiError';
+import { useAuthStore } from '@/store/authStore';
+import type { TwoFactorSetup } from '@/types';
+
+type Step = 'idle' | 'setup' | 'recovery-codes';
+
+export default function TwoFactorSettings() {
+    const user = useAuthStore((state) => state.user);
+    const setUser = useAuthStore((state) => state.setUser);
+    const createAbortController = useAbortController();
+    const [step, setStep] = useState<Step>('idle');
+    const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+    const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+    const [code, setCode] = useState('');
+    const [codeError, setCodeError] = useState<string | undefined>();
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const isEnabled = !!user?.twoFactorEnabled;
+
+    const resetCode = () => {
+        setCode('');
+        setCodeError(undefined);
+    };
+
+    const runWithCode = async (action: (code: string) => Promise<void>) => {
+        if (code.trim().length < 6) {
+            setCodeError('Enter the 6-digit code from your authenticator app');
+            return;
+        }
+
+        setIsSubmitting(true);
+        setCodeError(undefined);
+        try {
+            await action(code.trim());
+        } catch (error) {
+            if (isAbortError(error)) return;
+            setCodeError(error instanceof Error ? error.message : 'Invalid code');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleStartSetup = async () => {
+        setIsSubmitting(true);
+        try {
+            const data = await twoFactorService.setup(createAbortController().signal);
+            setSetup(data);
+            resetCode();
+            setStep('setup');
+        } catch (error) {
+            if (isAbortError(error)) return;
+            toast.error(error instanceof Error ? error.message : 'Failed to start setup');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleEnable = () =>
+        runWithCode(async (value) => {
+            const codes = await twoFactorService.enable(value, createAbortController().signal);
+            setRecoveryCodes(codes);
+            setSetup(null);
+            resetCode();
+            setStep('recovery-codes');
+            if (user) {
+                setUser({ ...user, twoFactorEnabled: true });
+            }
+            toast.success('Two-factor authentication enabled');
+        });
+
+    const handleDisable = () =>
+        runWithCode(async (value) => {
+            await twoFactorService.disable(value, createAbortController().signal);
+            resetCode();
+            if (user) {
+                setUser({ ...user, twoFactorEnabled: false });
+            }
+            toast.success('Two-factor authentication disabled');
+        });
+
+    const handleRegenerate = () =>
+        runWithCode(async (value) => {
+            const codes = await twoFactorService.regenerateRecoveryCodes(value, createAbortController().signal);
+            setRecoveryCodes(codes);
+            resetCode();
+            setStep('recovery-codes');
+        });
+
+    const handleCopyRecoveryCodes = async () => {
+        try {
+            await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+            toast.success('Recovery codes copied');
+        } catch {
+            toast.error('Failed to copy recovery codes');
+        }
+    };
+
+    const handleCancelSetup = () => {
+        setSetup(null);
+        resetCode();
+        setStep('idle');
+    };
+
+    const codeInput = (
+        <Input
+            label="Authentication Code"
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            placeholder="123456"
+            value={code}
+            disabled={isSubmitting}
+            error={codeError}
+            onChange={(e) => setCode(e.target.value)}
+        />
+    );
+
+    return (
+        <div className="bg-gray-900 border border-gray-800 rounded-xl p-8">
+            <div className="flex items-center justify-between mb-6">
+                <h2 className="text-xl font-semibold text-white">Two-Factor Authentication</h2>
+                <span
+                    className={
+                        isEnabled
+                            ? 'text-xs font-medium px-2 py-1 rounded-full bg-green-900/40 text-green-400 border border-green-800'
+                            : 'text-xs font-medium px-2 py-1 rounded-full bg-gray-800 text-gray-400 border border-gray-700'
+                    }
+                >
+                    {isEnabled ? 'Enabled' : 'Disabled'}
+                </span>
+            </div>
+
+            {step === 'recovery-codes' ? (
+                <div className="space-y-4">
+                    <p className="text-sm text-gray-400">
+                        Store these recovery codes somewhere safe. Each code can be used once to sign in
+                        if you lose access to your authenticator app. They will not be shown again.
+                    </p>
+                    <div className="grid grid-cols-2 gap-2 bg-gray-800 rounded-lg p-4 font-mono text-sm text-gray-200">
+                        {recoveryCodes.map((recoveryCode) => (
+                            <span key={recoveryCode}>{recoveryCode}</span>
+                        ))}
+                    </div>
+                    <div className="flex gap-3">
+                        <Button type="button" variant="outline" onClick={handleCopyRecoveryCodes}>
+                            <Copy className="w-4 h-4" />
+                            Copy
+                        </Button>
+                        <Button type="button" onClick={() => setStep('idle')}>
+                            Done
+                        </Button>
+                    </div>
+                </div>
+            ) : step === 'setup' && setup ? (
+                <div className="space-y-6">
+                    <p className="text-sm text-gray-400">
+                        Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+                    </p>
+                    <div className="flex flex-col sm:flex-row gap-6 items-start">
+                        <div className="bg-white p-3 rounded-lg">
+                            <QRCodeSVG value={setup.otpauthUri} size={160} />
+                        </div>
+                        <div className="flex-1 min-w-0 space-y-2">
+                            <p className="text-xs text-gray-500">Can&apos;t scan? Enter this key manually:</p>
+                            <code className="block break-all bg-gray-800 rounded px-3 py-2 text-sm text-gray-200">
+                                {setup.secret}
+                            </code>
+                        </div>
+                    </div>
+                    {codeInput}
+                    <div className="flex gap-3">
+                        <Button
+                            type="button"
+                            variant="outline"
+                            onClick={handleCancelSetup}
+                            disabled={isSubmitting}
+                        >
+                            Cancel
+                        </Button>
+                        <Button type="button" onClick={handleEnable} disabled={isSubmitting}>
+                            {isSubmitting ? (
+                                <>
+                                    <Loader2 className="w-4 h-4 animate-spin" />
+                                    Verifying...
+                                </>
+                            ) : (
+                                <>
+                                    <ShieldCheck className="w-4 h-4" />
+                                    Verify and Enable
+                                </>
+                            )}
+                        </Button>
+                    </div>
+                </div>
+            ) : isEnabled ? (
+                <div className="space-y-6">
+                    <p className="text-sm text-gray-400">
+                        Sign-ins require a code from your authenticator app. Enter a current code to
+                        disable two-factor authentication or generate new recovery codes.
+                    </p>
+                    {codeInput}
+                    <div className="flex flex-wrap gap-3">
+                        <Button
+                            type="button"
+                            variant="outline"
+                            onClick={handleRegenerate}
+                            disabled={isSubmitting}
+                        >
+                            New Recovery Codes
+                        </Button>
+                        <Button
+                            type="button"
+                            variant="destructive"
+                            onClick={handleDisable}
+                            disabled={isSubmitting}
+                        >
+                            <ShieldOff className="w-4 h-4" />
+                            Disable
+                        </Button>
+                    </div>
+                </div>
+            ) : (
+                <div className="space-y-6">
+                    <p className="text-sm text-gray-400">
+                        Add an extra layer of security by requiring a code from an authenticator app
+                        when you sign in.
+                    </p>
+                    <Button type="button" onClick={handleStartSetup} disabled={isSubmitting}>
+                        {isSubmitting ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                        ) : (
+                            <ShieldCheck className="w-4 h-4" />
+                        )}
+                        Set Up Two-Factor
+                    </Button>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -6,9 +6,10 @@ interface CertificationItemProps {
     certification: Certification;
     onEdit: (certification: Certification) => void;
     onDelete: (id: string) => void;
+    readOnly?: boolean;
 }
 
-export default function CertificationItem({ certification, onEdit, onDelete }: CertificationItemProps) {
+export default function CertificationItem({ certification, onEdit, onDelete, readOnly = false }: CertificationItemProps) {
     return (
         <div className="bg-gray-900 border border-gray-800 rounded-lg p-6 hover:border-gray-700 transition-colors">
             <div className="grid grid-cols-[auto_1fr_auto] gap-4 items-start">
@@ -49,22 +50,24 @@ export default function CertificationItem({ certification, onEdit, onDelete }: C
                     )}
                 </div>
 
-                <div className="flex gap-2">
-                    <Button
-                        size="icon"
-                        variant="ghost"
-                        onClick={() => onEdit(certification)}
-                    >
-                        <Pencil className="w-4 h-4" />
-                    </Button>
-                    <Button
-                        size="icon"
-                        variant="ghost"
-                        onClick={() => onDelete(certification.id)}
-                    >
-                        <Trash2 className="w-4 h-4 text-red-500" />
-                    </Button>
-                </div>
+                {!readOnly && (
+                    <div className="flex gap-2">
+                        <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => onEdit(certification)}
+                        >
+                            <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => onDelete(certification.id)}
+                        >
+                            <Trash2 className="w-4 h-4 text-red-500" />
+                        </Button>
+                    </div>
+                )}
             </div>
         </div>
     );
@@ -6,9 +6,10 @@ interface EducationItemProps {
     education: Education;
     onEdit: (education: Education) => void;
     onDelete: (id: string) => void;
+    readOnly?: boolean;
 }
 
-export default function EducationItem({ education, onEdit, onDelete }: EducationItemProps) {
+export default function EducationItem({ education, onEdit, onDelete, readOnly = false }: EducationItemProps) {
     return (
         <div className="bg-gray-900 border border-gray-800 rounded-lg p-6 hover:border-gray-700 transition-colors">
             <div className="grid grid-cols-[auto_1fr_auto] gap-4 items-start">
@@ -24,22 +25,24 @@ export default function EducationItem({ education, onEdit, onDelete }: Education
                     )}
                 </div>
 
-                <div className="flex gap-2">
-                    <Button
-                        size="icon"
-                        variant="ghost"
-                        onClick={() => onEdit(education)}
-                    >
-                        <Pencil className="w-4 h-4" />
-                    </Button>
-                    <Button
-                        size="icon"
-                        variant="ghost"
-                        onClick={() => onDelete(education.id)}
-                    >
-                        <Trash2 className="w-4 h-4 text-red-500" />
-                    </Button>
-                </div>
+                {!readOnly && (
+                    <div className="flex gap-2">
+                        <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => onEdit(education)}
+                        >
+                            <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => onDelete(education.id)}
+                        >
+                            <Trash2 className="w-4 h-4 text-red-500" />
+                        </Button>
+                    </div>
+                )}
             </div>
         </div>
     );
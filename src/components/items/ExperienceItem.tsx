@@ -6,9 +6,10 @@ interface ExperienceItemProps {
     experience: Experience;
     onEdit: (experience: Experience) => void;
     onDelete: (id: string) => void;
+    readOnly?: boolean;
 }
 
-export default function ExperienceItem({ experience, onEdit, onDelete }: ExperienceItemProps) {
+export default function ExperienceItem({ experience, onEdit, onDelete, readOnly = false }: ExperienceItemProps) {
     return (
         <div className="bg-gray-900 border border-gray-800 rounded-lg p-6 hover:border-gray-700 transition-colors">
             <div className="grid grid-cols-[auto_1fr_auto] gap-4 items-start">
@@ -39,22 +40,24 @@ export default function ExperienceItem({ experience, onEdit, onDelete }: Experie
                     )}
                 </div>
 
-                <div className="flex gap-2">
-                    <Button
-                        size="icon"
-                        variant="ghost"
-                        onClick={() => onEdit(experience)}
-                    >
-                        <Pencil className="w-4 h-4" />
-                    </Button>
-                    <Button
-                        size="icon"
-                        variant="ghost"
-                        onClick={() => onDelete(experience.id)}
-                    >
-                        <Trash2 className="w-4 h-4 text-red-500" />
-                    </Button>
-                </div>
+                {!readOnly && (
+                    <div className="flex gap-2">
+                        <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => onEdit(experience)}
+                        >
+                            <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => onDelete(experience.id)}
+                        >
+                            <Trash2 className="w-4 h-4 text-red-500" />
+                        </Button>
+                    </div>
+                )}
             </div>
         </div>
     );
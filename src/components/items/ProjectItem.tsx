@@ -1,15 +1,17 @@
-import { Pencil, Trash2 } from 'lucide-react';
+import { History, Pencil, Trash2 } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
 import type { Project } from '@/types';
-import { format } from 'date-fns';
+import PublicationStatus from '@/components/ui/PublicationStatus';
 
 interface ProjectItemProps {
     project: Project;
     onEdit: (project: Project) => void;
     onDelete: (id: string) => void;
+    onShowHistory?: (project: Project) => void;
+    readOnly?: boolean;
 }
 
-export default function ProjectItem({ project, onEdit, onDelete }: ProjectItemProps) {
+export default function ProjectItem({ project, onEdit, onDelete, onShowHistory, readOnly = false }: ProjectItemProps) {
     return (
         <div className="bg-gray-900 border border-gray-800 rounded-lg overflow-hidden hover:border-gray-700 transition-colors">
             {project.coverImage && (
@@ -24,11 +26,7 @@ export default function ProjectItem({ project, onEdit, onDelete }: ProjectItemPr
                     <div className="min-w-0">
                         <h3 className="text-white font-semibold text-lg line-clamp-2">{project.title}</h3>
                         <p className="text-gray-400 text-sm mt-1 line-clamp-1">{project.description}</p>
-                        {project.publishedAt && (
-                            <p className="text-gray-500 text-xs mt-2">
-                                {format(new Date(project.publishedAt), 'MMMM dd, yyyy')}
-                            </p>
-                        )}
+                        <PublicationStatus publishedAt={project.publishedAt} />
 
                         {project.projectSkills && project.projectSkills.length > 0 && (
                             <div className="flex flex-wrap gap-2 mt-3">
@@ -44,22 +42,38 @@ export default function ProjectItem({ project, onEdit, onDelete }: ProjectItemPr
                         )}
                     </div>
 
-                    <div className="flex gap-2">
-                        <Button
-                            size="icon"
-                            variant="ghost"
-                            onClick={() => onEdit(project)}
-                        >
-                            <Pencil className="w-4 h-4" />
-                        </Button>
-                        <Button
-                            size="icon"
-                            variant="ghost"
-                            onClick={() => onDelete(project.id)}
-                        >
-                            <Trash2 className="w-4 h-4 text-red-500" />
-                        </Button>
-                    </div>
+                    {(onShowHistory || !readOnly) && (
+                        <div className="flex gap-2">
+                            {onShowHistory && (
+                                <Button
+                                    size="icon"
+                                    variant="ghost"
+                                    onClick={() => onShowHistory(project)}
+                                    aria-label="Show history"
+                                >
+                                    <History className="w-4 h-4" />
+                                </Button>
+                            )}
+                            {!readOnly && (
+                                <>
+                                    <Button
+                                        size="icon"
+                                        variant="ghost"
+                                        onClick={() => onEdit(project)}
+                                    >
+                                        <Pencil className="w-4 h-4" />
+                                    </Button>
+                                    <Button
+                                        size="icon"
+                                        variant="ghost"
+                                        onClick={() => onDelete(project.id)}
+                                    >
+                                        <Trash2 className="w-4 h-4 text-red-500" />
+                                    </Button>
+                                </>
+                            )}
+                        </div>
+                    )}
                 </div>
             </div>
         </div>
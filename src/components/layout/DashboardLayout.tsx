@@ -2,9 +2,14 @@ import { useState, useEffect } from 'react';
 import { Outlet } from 'react-router-dom';
 import { Menu, X } from 'lucide-react';
 import Sidebar from './Sidebar';
+import SessionExpiryDialog from '@/components/SessionExpiryDialog';
+import { useLiveUpdatesStore } from '@/store/liveUpdatesStore';
 
 export default function DashboardLayout() {
     const [isSidebarOpen, setIsSidebarOpen] = useState(true);
+    const connectLiveUpdates = useLiveUpdatesStore((state) => state.connect);
+
+    useEffect(() => connectLiveUpdates(), [connectLiveUpdates]);
 
     useEffect(() => {
         const handleResize = () => {
@@ -58,6 +63,8 @@ export default function DashboardLayout() {
                     <Outlet />
                 </div>
             </main>
+
+            <SessionExpiryDialog />
         </div>
     );
 }
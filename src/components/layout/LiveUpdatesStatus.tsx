@@ -0,0 +1,17 @@
+import { Loader2 } from 'lucide-react';
+import { useLiveUpdatesStore } from '@/store/liveUpdatesStore';
+
+export default function LiveUpdatesStatus() {
+    const status = useLiveUpdatesStore((state) => state.status);
+
+    if (status !== 'reconnecting') {
+        return null;
+    }
+
+    return (
+        <div className="mb-2 flex items-center gap-2 rounded-lg border border-gray-800 bg-gray-800/50 px-4 py-3 text-sm text-gray-300">
+            <Loader2 className="w-4 h-4 text-yellow-400 animate-spin flex-shrink-0" />
+            <span className="flex-1 truncate">Reconnecting to live updates...</span>
+        </div>
+    );
+}
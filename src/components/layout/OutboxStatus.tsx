@@ -0,0 +1,61 @@
+import { useEffect } from 'react';
+import { AlertTriangle, CloudOff, CloudUpload, Loader2, X } from 'lucide-react';
+import { useOutboxStore } from '@/store/outboxStore';
+
+export default function OutboxStatus() {
+    const { pending, conflicts, isOnline, isReplaying, refresh, replay, dismissConflict } = useOutboxStore();
+
+    useEffect(() => {
+        refresh().then(() => replay());
+    }, [refresh, replay]);
+
+    if (isOnline && pending.length === 0 && conflicts.length === 0) {
+        return null;
+    }
+
+    const pendingLabel = `${pending.length} pending ${pending.length === 1 ? 'change' : 'changes'}`;
+    const statusLabel = !isOnline
+        ? pending.length > 0 ? `Offline · ${pendingLabel}` : 'Offline'
+        : isReplaying ? 'Syncing changes...' : pendingLabel;
+
+    return (
+        <div className="mb-2 rounded-lg border border-gray-800 bg-gray-800/50 px-4 py-3 text-sm">
+            {(!isOnline || pending.length > 0) && (
+                <div className="flex items-center gap-2 text-gray-300">
+                    {!isOnline ? (
+                        <CloudOff className="w-4 h-4 text-yellow-400 flex-shrink-0" />
+                    ) : isReplaying ? (
+                        <Loader2 className="w-4 h-4 text-primary-400 animate-spin flex-shrink-0" />
+                    ) : (
+                        <CloudUpload className="w-4 h-4 text-primary-400 flex-shrink-0" />
+                    )}
+                    <span className="flex-1 truncate">{statusLabel}</span>
+                    {isOnline && !isReplaying && pending.length > 0 && (
+                        <button
+                            onClick={() => replay()}
+                            className="text-xs font-medium text-primary-400 hover:text-primary-300"
+                        >
+                            Sync now
+                        </button>
+                    )}
+                </div>
+            )}
+
+            {conflicts.map((conflict) => (
+                <div key={conflict.id} className="flex items-start gap-2 mt-2 first:mt-0 text-xs text-red-400">
+                    <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                    <span className="flex-1">
+                        {conflict.label} failed to sync: {conflict.message}
+                    </span>
+                    <button
+                        onClick={() => dismissConflict(conflict.id)}
+                        className="text-gray-500 hover:text-gray-300"
+                        aria-label="Dismiss"
+                    >
+                        <X className="w-3.5 h-3.5" />
+                    </button>
+                </div>
+            ))}
+        </div>
+    );
+}
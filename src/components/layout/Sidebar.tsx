@@ -7,23 +7,31 @@ import {
     Award,
     FolderKanban,
     Wrench,
+    Settings,
+    Users,
     LogOut
 } from 'lucide-react';
 import { useAuthStore } from '@/store/authStore';
+import OutboxStatus from './OutboxStatus';
+import LiveUpdatesStatus from './LiveUpdatesStatus';
 import { cn } from '@/lib/utils';
+import { hasPermission, type Permission } from '@/lib/permissions';
 
-const navigation = [
+const navigation: { name: string; href: string; icon: typeof User; permission?: Permission }[] = [
     { name: 'Dashboard', href: '/', icon: LayoutDashboard },
-    { name: 'User Details', href: '/user-details', icon: User },
+    { name: 'User Details', href: '/user-details', icon: User, permission: 'profile:manage' },
     { name: 'Skills', href: '/skills', icon: Wrench },
     { name: 'Experience', href: '/experience', icon: Briefcase },
     { name: 'Education', href: '/education', icon: GraduationCap },
     { name: 'Certifications', href: '/certifications', icon: Award },
     { name: 'Projects', href: '/projects', icon: FolderKanban },
+    { name: 'Team', href: '/team', icon: Users, permission: 'team:manage' },
+    { name: 'Account', href: '/account', icon: Settings },
 ];
 
 export default function Sidebar() {
     const { user, logout } = useAuthStore();
+    const visibleNavigation = navigation.filter((item) => !item.permission || hasPermission(user, item.permission));
 
     return (
         <div className="flex flex-col h-full bg-gray-900 border-r border-gray-800">
@@ -33,7 +41,7 @@ export default function Sidebar() {
             </div>
 
             <nav className="flex-1 p-4 space-y-1 overflow-y-auto">
-                {navigation.map((item) => (
+                {visibleNavigation.map((item) => (
                     <NavLink
                         key={item.name}
                         to={item.href}
@@ -54,7 +62,12 @@ export default function Sidebar() {
             </nav>
 
             <div className="p-4 border-t border-gray-800">
-                <div className="flex items-center gap-3 px-4 py-3 rounded-lg bg-gray-800 mb-2">
+                <LiveUpdatesStatus />
+                <OutboxStatus />
+                <NavLink
+                    to="/account"
+                    className="flex items-center gap-3 px-4 py-3 rounded-lg bg-gray-800 hover:bg-gray-700 transition-colors mb-2"
+                >
                     <div className="w-10 h-10 rounded-full bg-primary-600 flex items-center justify-center text-white font-semibold">
                         {user?.name.charAt(0).toUpperCase()}
                     </div>
@@ -62,7 +75,7 @@ export default function Sidebar() {
                         <p className="text-sm font-medium text-white truncate">{user?.name}</p>
                         <p className="text-xs text-gray-400 truncate">{user?.email}</p>
                     </div>
-                </div>
+                </NavLink>
                 <button
                     onClick={logout}
                     className="flex items-center gap-3 px-4 py-3 rounded-lg text-sm font-medium text-gray-400 hover:text-white hover:bg-gray-800 w-full transition-colors"
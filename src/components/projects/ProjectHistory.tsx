@@ -0,0 +1,299 @@
+import { useCallback, useMemo, useState } from 'react';
+import toast from 'react-hot-toast';
+import { format } from 'date-fns';
+import { Loader2, RotateCcw } from 'lucide-react';
+import Drawer from '@/components/ui/Drawer';
+import { Button } from '@/components/ui/Button';
+import { projectsService } from '@/services/projects';
+import { useQuery } from '@/hooks/useQuery';
+import { useAbortController } from '@/hooks/useAbortController';
+import { listKey, queryKeys } from '@/lib/queryCache';
+import { diffHtml, diffWords, type DiffToken } from '@/lib/diff';
+import { isAbortError } from '@/lib/apiError';
+import { cn } from '@/lib/utils';
+import type { Project, ProjectRevision } from '@/types';
+
+interface ProjectHistoryProps {
+    project: Project | null;
+    onClose: () => void;
+    canRestore: boolean;
+}
+
+type Side = 'before' | 'after';
+
+interface RevisionField {
+    label: string;
+    value: (revision: ProjectRevision) => string;
+}
+
+const REVISION_FIELDS: RevisionField[] = [
+    { label: 'Title', value: (revision) => revision.title },
+    { label: 'Slug', value: (revision) => revision.slug },
+    { label: 'Description', value: (revision) => revision.description },
+    {
+        label: 'Publish date',
+        value: (revision) =>
+            revision.publishedAt ? format(new Date(revision.publishedAt), 'MMM d, yyyy HH:mm') : 'Draft',
+    },
+    { label: 'Highlighted', value: (revision) => (revision.highlighted ? 'Yes' : 'No') },
+    { label: 'Skills', value: (revision) => revision.skills.map((skill) => skill.name).join(', ') || '—' },
+];
+
+const formatRevisionDate = (revision: ProjectRevision) => format(new Date(revision.createdAt), 'MMM d, yyyy HH:mm');
+
+const revisionImages = (revision: ProjectRevision) =>
+    revision.coverImage ? [revision.coverImage, ...revision.contentImages] : revision.contentImages;
+
+const CONTENT_DIFF_CLASSES =
+    'prose prose-invert max-w-none min-w-0 flex-1 rounded-md border border-gray-800 bg-gray-950/40 px-4 py-3 ' +
+    '[&_del]:rounded-sm [&_del]:bg-red-500/20 [&_del]:text-red-200 [&_ins]:rounded-sm [&_ins]:bg-green-500/20 [&_ins]:text-green-200 [&_ins]:no-underline';
+
+function DiffText({ diff, side }: { diff: DiffToken[]; side: Side }) {
+    const hidden = side === 'before' ? 'insert' : 'delete';
+
+    return (
+        <>
+            {diff.map(({ operation, value }, index) => {
+                if (operation === hidden) return null;
+                if (operation === 'equal') return <span key={index}>{value}</span>;
+                return operation === 'delete' ? (
+                    <del key={index} className="rounded-sm bg-red-500/20 text-red-200">{value}</del>
+                ) : (
+                    <ins key={index} className="rounded-sm bg-green-500/20 text-green-200 no-underline">{value}</ins>
+                );
+            })}
+        </>
+    );
+}
+
+function RevisionImages({ images, others, side }: { images: string[]; others: string[]; side: Side }) {
+    if (images.length === 0) {
+        return <p className="text-sm text-gray-500">No images</p>;
+    }
+
+    return (
+        <div className="flex flex-wrap gap-2">
+            {images.map((image, index) => (
+                <img
+                    key={`${index}-${image.slice(-16)}`}
+                    src={image}
+                    alt=""
+                    className={cn(
+                        'h-16 w-16 rounded-md border object-cover',
+                        others.includes(image)
+                            ? 'border-gray-800'
+                            : side === 'before' ? 'border-red-500 ring-1 ring-red-500' : 'border-green-500 ring-1 ring-green-500'
+                    )}
+                />
+            ))}
+        </div>
+    );
+}
+
+interface RevisionPickerProps {
+    label: string;
+    revisions: ProjectRevision[];
+    selected: ProjectRevision;
+    onSelect: (id: string) => void;
+    canRestore: boolean;
+    isRestoring: boolean;
+    onRestore: (revision: ProjectRevision) => void;
+}
+
+function RevisionPicker({ label, revisions, selected, onSelect, canRestore, isRestoring, onRestore }: RevisionPickerProps) {
+    const restoredFrom = revisions.find((revision) => revision.id === selected.restoredFrom);
+    const isCurrent = selected.id === revisions[0].id;
+
+    return (
+        <div className="min-w-0 flex-1 space-y-2">
+            <label className="block text-xs font-medium uppercase tracking-wide text-gray-500">
+                {label}
+                <select
+                    value={selected.id}
+                    onChange={(e) => onSelect(e.target.value)}
+                    className="mt-1.5 h-10 w-full rounded-md border border-gray-700 bg-gray-900 px-3 text-sm normal-case tracking-normal text-gray-100 focus:outline-none focus:ring-2 focus:ring-primary-600 focus:border-transparent"
+                >
+                    {revisions.map((revision, index) => (
+                        <option key={revision.id} value={revision.id}>
+                            {formatRevisionDate(revision)} · {revision.author?.name ?? 'Unknown author'}
+                            {index === 0 ? ' (current)' : ''}
+                        </option>
+                    ))}
+                </select>
+            </label>
+            <div className="flex min-h-9 items-center justify-between gap-3">
+                <p className="text-xs text-gray-500">
+                    {restoredFrom ? `Restored from ${formatRevisionDate(restoredFrom)}` : ''}
+                </p>
+                {canRestore && !isCurrent && (
+                    <Button type="button" size="sm" variant="outline" onClick={() => onRestore(selected)} disabled={isRestoring}>
+                        {isRestoring ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                        Restore
+                    </Button>
+                )}
+            </div>
+        </div>
+    );
+}
+
+function RevisionComparison({ project, canRestore }: { project: Project; canRestore: boolean }) {
+    const createAbortController = useAbortController();
+    const historyKey = listKey(queryKeys.projectRevisions, { projectId: project.id });
+    const fetchRevisions = useCallback(
+        (signal?: AbortSignal) => projectsService.getRevisions(project.id, signal),
+        [project.id]
+    );
+    const { data: revisions, isLoading } = useQuery(historyKey, fetchRevisions, {
+        errorMessage: 'Failed to load project history',
+    });
+    // Unset means "the default": the current revision compared with the one before it.
+    const [selection, setSelection] = useState<{ before: string | null; after: string | null }>({
+        before: null,
+        after: null,
+    });
+    const [restoringId, setRestoringId] = useState<string | null>(null);
+
+    const before = revisions?.find((revision) => revision.id === selection.before) ?? revisions?.[1] ?? revisions?.[0];
+    const after = revisions?.find((revision) => revision.id === selection.after) ?? revisions?.[0];
+
+    const contentDiff = useMemo(
+        () => (before && after ? diffHtml(before.content, after.content) : null),
+        [before, after]
+    );
+
+    const handleRestore = async (revision: ProjectRevision) => {
+        setRestoringId(revision.id);
+        try {
+            await projectsService.restoreRevision(project.id, revision.id, createAbortController().signal);
+            toast.success(`Restored the version from ${formatRevisionDate(revision)}`);
+            setSelection({ before: null, after: null });
+        } catch (error) {
+            if (!isAbortError(error)) {
+                toast.error(error instanceof Error ? error.message : 'Failed to restore revision');
+            }
+        } finally {
+            setRestoringId(null);
+        }
+    };
+
+    if (isLoading) {
+        return (
+            <div className="flex justify-center py-12">
+                <Loader2 className="w-6 h-6 text-primary-500 animate-spin" />
+            </div>
+        );
+    }
+
+    if (!revisions || !before || !after || !contentDiff) {
+        return <p className="text-sm text-gray-400">No revisions have been recorded for this project yet.</p>;
+    }
+
+    const changedFields = REVISION_FIELDS.filter((field) => field.value(before) !== field.value(after));
+    const beforeImages = revisionImages(before);
+    const afterImages = revisionImages(after);
+    const imagesChanged = JSON.stringify(beforeImages) !== JSON.stringify(afterImages);
+    const unchangedLabels = [
+        ...REVISION_FIELDS.filter((field) => !changedFields.includes(field)).map((field) => field.label),
+        ...(imagesChanged ? [] : ['Images']),
+    ];
+    const contentChanged = before.content !== after.content;
+
+    const pickerProps = {
+        revisions,
+        canRestore,
+        isRestoring: restoringId !== null,
+        onRestore: handleRestore,
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col sm:flex-row gap-4">
+                <RevisionPicker
+                    {...pickerProps}
+                    label="Compare"
+                    selected={before}
+                    onSelect={(id) => setSelection((previous) => ({ ...previous, before: id }))}
+                />
+                <RevisionPicker
+                    {...pickerProps}
+                    label="With"
+                    selected={after}
+                    onSelect={(id) => setSelection((previous) => ({ ...previous, after: id }))}
+                />
+            </div>
+
+            {before.id === after.id ? (
+                <p className="text-sm text-gray-400">
+                    {revisions.length > 1
+                        ? 'Pick two different revisions to see what changed between them.'
+                        : 'This project has a single revision so far. Every save adds a new one.'}
+                </p>
+            ) : (
+                <>
+                    {changedFields.map((field) => {
+                        const diff = diffWords(field.value(before), field.value(after));
+                        return (
+                            <section key={field.label}>
+                                <h3 className="mb-1.5 text-sm font-medium text-gray-300">{field.label}</h3>
+                                <div className="flex gap-3">
+                                    {(['before', 'after'] as const).map((side) => (
+                                        <p
+                                            key={side}
+                                            className="min-w-0 flex-1 rounded-md border border-gray-800 bg-gray-950/40 px-3 py-2 text-sm text-gray-200 break-words whitespace-pre-wrap"
+                                        >
+                                            <DiffText diff={diff} side={side} />
+                                        </p>
+                                    ))}
+                                </div>
+                            </section>
+                        );
+                    })}
+
+                    {imagesChanged && (
+                        <section>
+                            <h3 className="mb-1.5 text-sm font-medium text-gray-300">Images</h3>
+                            <div className="flex gap-3">
+                                <div className="min-w-0 flex-1">
+                                    <RevisionImages images={beforeImages} others={afterImages} side="before" />
+                                </div>
+                                <div className="min-w-0 flex-1">
+                                    <RevisionImages images={afterImages} others={beforeImages} side="after" />
+                                </div>
+                            </div>
+                        </section>
+                    )}
+
+                    <section>
+                        <h3 className="mb-1.5 text-sm font-medium text-gray-300">
+                            Content
+                            {!contentChanged && <span className="ml-2 text-xs font-normal text-gray-500">Unchanged</span>}
+                        </h3>
+                        <div className="flex gap-3">
+                            <div className={CONTENT_DIFF_CLASSES} dangerouslySetInnerHTML={{ __html: contentDiff.before }} />
+                            <div className={CONTENT_DIFF_CLASSES} dangerouslySetInnerHTML={{ __html: contentDiff.after }} />
+                        </div>
+                    </section>
+
+                    {unchangedLabels.length > 0 && (
+                        <p className="text-xs text-gray-500">Unchanged: {unchangedLabels.join(', ')}</p>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
+
+export default function ProjectHistory({ project, onClose, canRestore }: ProjectHistoryProps) {
+    return (
+        <Drawer
+            open={project !== null}
+            onOpenChange={(open) => {
+                if (!open) onClose();
+            }}
+            title="Project History"
+            description={project?.title}
+        >
+            {project && <RevisionComparison key={project.id} project={project} canRestore={canRestore} />}
+        </Drawer>
+    );
+}
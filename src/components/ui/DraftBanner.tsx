@@ -0,0 +1,33 @@
+import { History } from 'lucide-react';
+import { format } from 'date-fns';
+import { Button } from './Button';
+
+interface DraftBannerProps {
+    savedAt: string;
+    // The item was saved again after the draft was started.
+    isOutdated?: boolean;
+    onRestore: () => void;
+    onDiscard: () => void;
+}
+
+export default function DraftBanner({ savedAt, isOutdated = false, onRestore, onDiscard }: DraftBannerProps) {
+    return (
+        <div className="mb-4 flex flex-col sm:flex-row sm:items-center gap-3 rounded-lg border border-primary-600/40 bg-primary-600/10 px-4 py-3 text-sm text-gray-200">
+            <div className="flex flex-1 items-center gap-3">
+                <History className="w-5 h-5 flex-shrink-0 text-primary-400" />
+                <p>
+                    You have an unsaved draft from {format(new Date(savedAt), 'MMM d, yyyy h:mm a')}.
+                    {isOutdated && ' This item has been saved again since, so you will be asked to resolve the differences when you save.'}
+                </p>
+            </div>
+            <div className="flex gap-2">
+                <Button type="button" variant="outline" size="sm" onClick={onDiscard}>
+                    Discard
+                </Button>
+                <Button type="button" size="sm" onClick={onRestore}>
+                    Restore
+                </Button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,44 @@
+import * as Dialog from '@radix-ui/react-dialog';
+import { X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface DrawerProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    title: string;
+    description?: string;
+    children: React.ReactNode;
+}
+
+export default function Drawer({ open, onOpenChange, title, description, children }: DrawerProps) {
+    return (
+        <Dialog.Root open={open} onOpenChange={onOpenChange}>
+            <Dialog.Portal>
+                <Dialog.Overlay className="fixed inset-0 z-40 bg-black/50 backdrop-blur-sm data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0" />
+                <Dialog.Content
+                    className={cn(
+                        'fixed inset-y-0 right-0 z-50 flex w-full max-w-4xl flex-col bg-gray-900 border-l border-gray-800 shadow-lg duration-200 data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:slide-out-to-right data-[state=open]:slide-in-from-right'
+                    )}
+                >
+                    <div className="flex items-start justify-between border-b border-gray-800 px-6 py-4">
+                        <div className="min-w-0">
+                            <Dialog.Title className="text-lg font-semibold text-white">
+                                {title}
+                            </Dialog.Title>
+                            {description && (
+                                <Dialog.Description className="text-sm text-gray-400 mt-1 truncate">
+                                    {description}
+                                </Dialog.Description>
+                            )}
+                        </div>
+                        <Dialog.Close className="rounded-sm opacity-70 transition-opacity hover:opacity-100 focus:outline-none focus:ring-2 focus:ring-primary-600 focus:ring-offset-2">
+                            <X className="h-4 w-4 text-gray-400" />
+                            <span className="sr-only">Close</span>
+                        </Dialog.Close>
+                    </div>
+                    <div className="flex-1 overflow-y-auto px-6 py-5">{children}</div>
+                </Dialog.Content>
+            </Dialog.Portal>
+        </Dialog.Root>
+    );
+}
@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Button } from './Button';
+import { cn } from '@/lib/utils';
+
+export interface ConflictField<T> {
+    name: keyof T & string;
+    label: string;
+    format?: (value: T[keyof T]) => string;
+}
+
+type Side = 'mine' | 'theirs';
+
+interface EditConflictProps<T> {
+    fields: ConflictField<T>[];
+    mine: T;
+    theirs: T;
+    onOverwrite: () => void;
+    onReload: () => void;
+    onMerge: (merged: T) => void;
+}
+
+const defaultFormat = (value: unknown) => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+    return String(value);
+};
+
+const isSame = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+export default function EditConflict<T>({ fields, mine, theirs, onOverwrite, onReload, onMerge }: EditConflictProps<T>) {
+    const changedFields = fields.filter((field) => !isSame(mine[field.name], theirs[field.name]));
+    const [choices, setChoices] = useState<Record<string, Side>>({});
+
+    const handleMerge = () => {
+        const merged = { ...mine };
+        changedFields.forEach((field) => {
+            if (choices[field.name] === 'theirs') {
+                merged[field.name] = theirs[field.name];
+            }
+        });
+        onMerge(merged);
+    };
+
+    const renderValue = (field: ConflictField<T>, side: Side) => {
+        const value = side === 'mine' ? mine[field.name] : theirs[field.name];
+        const selected = (choices[field.name] ?? 'mine') === side;
+
+        return (
+            <button
+                type="button"
+                onClick={() => setChoices((previous) => ({ ...previous, [field.name]: side }))}
+                aria-pressed={selected}
+                className={cn(
+                    'flex-1 min-w-0 rounded-md border px-3 py-2 text-left text-sm break-words transition-colors',
+                    selected
+                        ? 'border-primary-600 bg-primary-600/10 text-gray-100'
+                        : 'border-gray-800 bg-gray-900 text-gray-400 hover:border-gray-700'
+                )}
+            >
+                <span className="line-clamp-4">{(field.format ?? defaultFormat)(value)}</span>
+            </button>
+        );
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex gap-3 rounded-lg border border-yellow-600/40 bg-yellow-600/10 px-4 py-3 text-sm text-yellow-200">
+                <AlertTriangle className="w-5 h-5 flex-shrink-0 text-yellow-400" />
+                <p>
+                    Someone else saved changes to this item while you were editing it. Choose which version
+                    to keep for each field, or keep one version entirely.
+                </p>
+            </div>
+
+            {changedFields.length > 0 ? (
+                <div className="space-y-3 max-h-[50vh] overflow-y-auto pr-1">
+                    <div className="flex gap-3 text-xs font-medium uppercase tracking-wide text-gray-500">
+                        <span className="flex-1">Your changes</span>
+                        <span className="flex-1">Server version</span>
+                    </div>
+                    {changedFields.map((field) => (
+                        <div key={field.name}>
+                            <p className="mb-1.5 text-sm font-medium text-gray-300">{field.label}</p>
+                            <div className="flex gap-3">
+                                {renderValue(field, 'mine')}
+                                {renderValue(field, 'theirs')}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            ) : (
+                <p className="text-sm text-gray-400">
+                    Your changes already match the server version.
+                </p>
+            )}
+
+            <div className="flex flex-col-reverse sm:flex-row gap-3 pt-2">
+                <Button type="button" variant="outline" onClick={onReload} className="flex-1">
+                    Reload Server Version
+                </Button>
+                {changedFields.length > 0 && (
+                    <Button type="button" variant="secondary" onClick={handleMerge} className="flex-1">
+                        Apply Merge
+                    </Button>
+                )}
+                <Button type="button" variant="destructive" onClick={onOverwrite} className="flex-1">
+                    Overwrite
+                </Button>
+            </div>
+        </div>
+    );
+}
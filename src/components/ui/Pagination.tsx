@@ -0,0 +1,44 @@
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+
+interface PaginationProps {
+    page: number;
+    totalPages: number;
+    total: number;
+    onPageChange: (page: number) => void;
+    disabled?: boolean;
+}
+
+export default function Pagination({ page, totalPages, total, onPageChange, disabled }: PaginationProps) {
+    if (totalPages <= 1) {
+        return null;
+    }
+
+    return (
+        <nav className="flex items-center justify-between mt-6" aria-label="Pagination">
+            <p className="text-sm text-gray-400">
+                Page {page} of {totalPages} · {total} {total === 1 ? 'result' : 'results'}
+            </p>
+            <div className="flex gap-2">
+                <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onPageChange(page - 1)}
+                    disabled={disabled || page <= 1}
+                >
+                    <ChevronLeft className="w-4 h-4" />
+                    Previous
+                </Button>
+                <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onPageChange(page + 1)}
+                    disabled={disabled || page >= totalPages}
+                >
+                    Next
+                    <ChevronRight className="w-4 h-4" />
+                </Button>
+            </div>
+        </nav>
+    );
+}
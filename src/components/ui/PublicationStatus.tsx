@@ -0,0 +1,34 @@
+import { Clock } from 'lucide-react';
+import { format } from 'date-fns';
+import { useNow } from '@/hooks/useNow';
+import { getPublicationStatus } from '@/lib/publishing';
+import { formatCountdown } from '@/lib/time';
+
+interface PublicationStatusProps {
+    publishedAt: string | null;
+}
+
+export default function PublicationStatus({ publishedAt }: PublicationStatusProps) {
+    const now = useNow();
+    const status = getPublicationStatus(publishedAt, now);
+
+    if (!publishedAt || status === 'draft') {
+        return <p className="text-gray-500 text-xs mt-2">Draft</p>;
+    }
+
+    if (status === 'published') {
+        return <p className="text-gray-500 text-xs mt-2">{format(new Date(publishedAt), 'MMMM dd, yyyy')}</p>;
+    }
+
+    return (
+        <div className="flex flex-wrap items-center gap-2 mt-2 text-xs">
+            <span className="inline-flex items-center gap-1 rounded-full border border-primary-600/40 bg-primary-600/10 px-2 py-0.5 font-medium text-primary-300">
+                <Clock className="w-3 h-3" />
+                Scheduled
+            </span>
+            <span className="text-gray-400" title={format(new Date(publishedAt), 'MMMM dd, yyyy h:mm a')}>
+                Publishes in {formatCountdown(Date.parse(publishedAt) - now)}
+            </span>
+        </div>
+    );
+}
@@ -0,0 +1,37 @@
+import { RefreshCw } from 'lucide-react';
+import { remoteChangeKey, useLiveUpdatesStore } from '@/store/liveUpdatesStore';
+import type { EntityChangeEvent } from '@/types';
+
+interface RemoteChangeBadgeProps {
+    resource: EntityChangeEvent['resource'];
+    // The version being edited; the badge shows once the server has a newer one.
+    item: { id: string; updatedAt: string } | null;
+}
+
+export default function RemoteChangeBadge({ resource, item }: RemoteChangeBadgeProps) {
+    const change = useLiveUpdatesStore((state) =>
+        item ? state.remoteChanges[remoteChangeKey(resource, item.id)] : undefined
+    );
+
+    if (!item || !change) return null;
+
+    const isDeleted = change.action === 'deleted';
+    if (!isDeleted && (!change.updatedAt || Date.parse(change.updatedAt) <= Date.parse(item.updatedAt))) {
+        return null;
+    }
+
+    return (
+        <div
+            role="status"
+            title={
+                isDeleted
+                    ? 'Someone else deleted this item while you were editing it.'
+                    : 'Someone else saved changes to this item. Saving will let you compare both versions.'
+            }
+            className="mb-4 inline-flex items-center gap-1.5 rounded-full border border-yellow-600/40 bg-yellow-600/10 px-2.5 py-1 text-xs font-medium text-yellow-300"
+        >
+            <RefreshCw className="w-3.5 h-3.5" />
+            {isDeleted ? 'Deleted remotely' : 'Changed remotely'}
+        </div>
+    );
+}
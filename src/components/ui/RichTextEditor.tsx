@@ -39,7 +39,8 @@ export default function RichTextEditor({ content, onChange }: RichTextEditorProp
 
     useEffect(() => {
         if (editor && content !== editor.getHTML()) {
-            editor.commands.setContent(content);
+            // Syncing from the form isn't an edit, so it mustn't echo back as a change.
+            editor.commands.setContent(content, { emitUpdate: false });
         }
     }, [content, editor]);
 
@@ -0,0 +1,27 @@
+export interface SortOption {
+    value: string;
+    label: string;
+}
+
+interface SortSelectProps {
+    value: string;
+    options: SortOption[];
+    onChange: (value: string) => void;
+}
+
+export default function SortSelect({ value, options, onChange }: SortSelectProps) {
+    return (
+        <select
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            aria-label="Sort by"
+            className="h-10 rounded-md border border-gray-700 bg-gray-900 px-3 text-sm text-gray-100 focus:outline-none focus:ring-2 focus:ring-primary-600 focus:border-transparent"
+        >
+            {options.map((option) => (
+                <option key={option.value} value={option.value}>
+                    {option.label}
+                </option>
+            ))}
+        </select>
+    );
+}
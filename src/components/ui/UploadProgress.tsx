@@ -0,0 +1,32 @@
+export interface UploadProgressState {
+    stage: 'compressing' | 'uploading';
+    percent: number;
+}
+
+const stageLabels: Record<UploadProgressState['stage'], string> = {
+    compressing: 'Compressing images...',
+    uploading: 'Uploading...',
+};
+
+export default function UploadProgress({ stage, percent }: UploadProgressState) {
+    return (
+        <div className="space-y-1.5">
+            <div className="flex items-center justify-between text-xs text-gray-400">
+                <span>{stageLabels[stage]}</span>
+                <span>{percent}%</span>
+            </div>
+            <div
+                role="progressbar"
+                aria-valuenow={percent}
+                aria-valuemin={0}
+                aria-valuemax={100}
+                className="h-2 w-full rounded-full bg-gray-800 overflow-hidden"
+            >
+                <div
+                    className="h-full rounded-full bg-primary-600 transition-[width] duration-200"
+                    style={{ width: `${percent}%` }}
+                />
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,25 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+// Returns a factory for AbortControllers that are all aborted when the component unmounts.
+export function useAbortController() {
+    const controllersRef = useRef(new Set<AbortController>());
+
+    useEffect(() => {
+        const controllers = controllersRef.current;
+        return () => {
+            controllers.forEach((controller) => controller.abort());
+            controllers.clear();
+        };
+    }, []);
+
+    return useCallback(() => {
+        const controllers = controllersRef.current;
+        controllers.forEach((controller) => {
+            if (controller.signal.aborted) controllers.delete(controller);
+        });
+
+        const controller = new AbortController();
+        controllers.add(controller);
+        return controller;
+    }, []);
+}
@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { DEFAULT_PAGE_SIZE } from '@/lib/pagination';
+import type { ListParams, SortOrder } from '@/types';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface UseListParamsOptions {
+    pageSize?: number;
+    // Sort option in `field:order` form, e.g. `createdAt:desc`.
+    defaultSort: string;
+}
+
+const parseSort = (value: string): Pick<ListParams, 'sort' | 'order'> => {
+    const [sort, direction] = value.split(':');
+    const order: SortOrder = direction === 'asc' ? 'asc' : 'desc';
+    return { sort, order };
+};
+
+// Keeps page, search and sort in the URL so list views survive reloads and can be shared.
+export function useListParams({ pageSize = DEFAULT_PAGE_SIZE, defaultSort }: UseListParamsOptions) {
+    const [searchParams, setSearchParams] = useSearchParams();
+    const q = searchParams.get('q') ?? '';
+    const page = Math.max(1, Number(searchParams.get('page')) || 1);
+    const sortValue = searchParams.get('sort') ?? defaultSort;
+
+    const [searchInput, setSearchInput] = useState(q);
+    const [syncedQuery, setSyncedQuery] = useState(q);
+
+    // Pick up changes to `q` made outside the search box, e.g. back/forward navigation.
+    if (q !== syncedQuery) {
+        setSyncedQuery(q);
+        if (searchInput.trim() !== q) {
+            setSearchInput(q);
+        }
+    }
+
+    const updateParams = useCallback(
+        (changes: Record<string, string | null>, replace = false) => {
+            setSearchParams(
+                (previous) => {
+                    const next = new URLSearchParams(previous);
+                    Object.entries(changes).forEach(([key, value]) => {
+                        if (value) {
+                            next.set(key, value);
+                        } else {
+                            next.delete(key);
+                        }
+                    });
+                    return next;
+                },
+                { replace }
+            );
+        },
+        [setSearchParams]
+    );
+
+    useEffect(() => {
+        const query = searchInput.trim();
+        if (query === q) return;
+
+        const timeout = window.setTimeout(() => {
+            updateParams({ q: query, page: null }, true);
+        }, SEARCH_DEBOUNCE_MS);
+
+        return () => window.clearTimeout(timeout);
+    }, [searchInput, q, updateParams]);
+
+    const setPage = useCallback(
+        (nextPage: number) => {
+            updateParams({ page: nextPage > 1 ? String(nextPage) : null });
+        },
+        [updateParams]
+    );
+
+    const setSort = useCallback(
+        (value: string) => {
+            updateParams({ sort: value === defaultSort ? null : value, page: null });
+        },
+        [updateParams, defaultSort]
+    );
+
+    const params = useMemo<ListParams>(
+        () => ({ page, pageSize, q: q || undefined, ...parseSort(sortValue) }),
+        [page, pageSize, q, sortValue]
+    );
+
+    return { params, searchInput, setSearchInput, sortValue, setSort, setPage };
+}
@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+
+// Current time that re-renders the caller every `intervalMs`, for countdowns and relative times.
+export function useNow(intervalMs = 1000): number {
+    const [now, setNow] = useState(() => Date.now());
+
+    useEffect(() => {
+        const interval = window.setInterval(() => setNow(Date.now()), intervalMs);
+        return () => window.clearInterval(interval);
+    }, [intervalMs]);
+
+    return now;
+}
@@ -0,0 +1,6 @@
+import { useAuthStore } from '@/store/authStore';
+import { hasPermission, type Permission } from '@/lib/permissions';
+
+export function usePermission(permission: Permission): boolean {
+    return useAuthStore((state) => hasPermission(state.user, permission));
+}
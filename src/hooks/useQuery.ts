@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react';
+import toast from 'react-hot-toast';
+import { DEFAULT_STALE_TIME, queryCache } from '@/lib/queryCache';
+import { isAbortError } from '@/lib/apiError';
+
+interface UseQueryOptions {
+    staleTime?: number;
+    errorMessage?: string;
+    // Keep showing the last key's data while a new key (e.g. the next page) loads.
+    keepPreviousData?: boolean;
+}
+
+export function useQuery<T>(key: string, fetcher: (signal?: AbortSignal) => Promise<T>, options: UseQueryOptions = {}) {
+    const { staleTime = DEFAULT_STALE_TIME, errorMessage, keepPreviousData = false } = options;
+
+    const subscribe = useCallback((listener: () => void) => queryCache.subscribe(key, listener), [key]);
+    const getSnapshot = useCallback(() => queryCache.getState<T>(key), [key]);
+    const state = useSyncExternalStore(subscribe, getSnapshot);
+    const [previousData, setPreviousData] = useState<T | undefined>(undefined);
+
+    if (keepPreviousData && state.data !== undefined && state.data !== previousData) {
+        setPreviousData(state.data);
+    }
+
+    const data = state.data ?? (keepPreviousData ? previousData : undefined);
+
+    useEffect(() => {
+        if (!queryCache.isStale(key, staleTime)) return;
+
+        queryCache.fetch(key, fetcher).catch((error) => {
+            if (errorMessage && !isAbortError(error)) {
+                toast.error(errorMessage);
+            }
+        });
+    }, [key, fetcher, staleTime, errorMessage]);
+
+    return {
+        data,
+        error: state.error,
+        isLoading: data === undefined && !state.error,
+        isFetching: state.isFetching,
+        refetch: () => queryCache.fetch(key, fetcher),
+    };
+}
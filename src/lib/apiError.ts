@@ -0,0 +1,77 @@
+import { AxiosError, isCancel } from 'axios';
+
+type FieldErrorPayload = Record<string, string | string[]> | { field: string; message: string }[];
+
+interface ErrorResponseBody {
+    error?: string;
+    message?: string;
+    code?: string;
+    errors?: FieldErrorPayload;
+    fieldErrors?: FieldErrorPayload;
+    data?: unknown;
+}
+
+export class ApiError extends Error {
+    readonly status: number | null;
+    readonly code: string | null;
+    readonly fieldErrors: Record<string, string>;
+    // Whatever the server put in `data` alongside the error, e.g. the current record on a conflict.
+    readonly data: unknown;
+
+    constructor(
+        message: string,
+        options: {
+            status?: number | null;
+            code?: string | null;
+            fieldErrors?: Record<string, string>;
+            data?: unknown;
+            cause?: unknown;
+        } = {}
+    ) {
+        super(message, { cause: options.cause });
+        this.name = 'ApiError';
+        this.status = options.status ?? null;
+        this.code = options.code ?? null;
+        this.fieldErrors = options.fieldErrors ?? {};
+        this.data = options.data;
+    }
+}
+
+const normalizeFieldErrors = (payload: FieldErrorPayload | undefined): Record<string, string> => {
+    if (!payload) return {};
+
+    if (Array.isArray(payload)) {
+        return Object.fromEntries(payload.map(({ field, message }) => [field, message]));
+    }
+
+    return Object.fromEntries(
+        Object.entries(payload).map(([field, message]) => [field, Array.isArray(message) ? message[0] : message])
+    );
+};
+
+export function toApiError(error: unknown, fallback = 'Something went wrong'): ApiError {
+    if (error instanceof ApiError) {
+        return error;
+    }
+
+    if (error instanceof AxiosError) {
+        if (!error.response) {
+            return new ApiError('Network error. Please check your connection.', { cause: error });
+        }
+
+        const body = (error.response.data ?? {}) as ErrorResponseBody;
+        return new ApiError(body.error || body.message || fallback, {
+            status: error.response.status,
+            code: body.code,
+            fieldErrors: normalizeFieldErrors(body.fieldErrors ?? body.errors),
+            data: body.data,
+            cause: error,
+        });
+    }
+
+    return new ApiError(error instanceof Error ? error.message : fallback, { cause: error });
+}
+
+export function isAbortError(error: unknown): boolean {
+    return isCancel(error) || (error instanceof DOMException && error.name === 'AbortError');
+}
@@ -0,0 +1,39 @@
+import type { User } from '@/types';
+
+const TOKEN_KEY = 'auth_token';
+const REFRESH_TOKEN_KEY = 'refresh_token';
+const USER_KEY = 'user';
+
+export const AUTH_STORAGE_KEYS = [TOKEN_KEY, REFRESH_TOKEN_KEY, USER_KEY];
+
+export const authStorage = {
+    getToken(): string | null {
+        return localStorage.getItem(TOKEN_KEY);
+    },
+
+    getRefreshToken(): string | null {
+        return localStorage.getItem(REFRESH_TOKEN_KEY);
+    },
+
+    setTokens(token: string, refreshToken?: string) {
+        localStorage.setItem(TOKEN_KEY, token);
+        if (refreshToken) {
+            localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+        }
+    },
+
+    getUser(): User | null {
+        const userStr = localStorage.getItem(USER_KEY);
+        return userStr ? JSON.parse(userStr) : null;
+    },
+
+    setUser(user: User) {
+        localStorage.setItem(USER_KEY, JSON.stringify(user));
+    },
+
+    clear() {
+        localStorage.removeItem(TOKEN_KEY);
+        localStorage.removeItem(REFRESH_TOKEN_KEY);
+        localStorage.removeItem(USER_KEY);
+    },
+};
@@ -0,0 +1,2 @@
+// Identifies this tab to the backend so change events it caused can be told apart from remote ones.
+export const clientId = crypto.randomUUID();
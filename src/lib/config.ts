@@ -0,0 +1,4 @@
+export const config = {
+    registrationEnabled: import.meta.env.VITE_ALLOW_REGISTRATION !== 'false',
+    mockApi: import.meta.env.VITE_MOCK_API === 'true',
+};
@@ -0,0 +1,110 @@
+import { sanitizeHtml } from './html';
+
+export type DiffOperation = 'equal' | 'insert' | 'delete';
+
+export interface DiffToken {
+    operation: DiffOperation;
+    value: string;
+}
+
+// Past this many comparisons the changed middle of two documents is shown as replaced
+// outright rather than tying up the main thread.
+const MAX_DIFF_CELLS = 2_000_000;
+
+const WORD_PATTERN = /[\p{L}\p{N}_]+|\s+|[^\p{L}\p{N}_\s]/gu;
+const TAG_PATTERN = /(<[^>]*>)/;
+
+const tokens = (values: string[], operation: DiffOperation) => values.map((value) => ({ operation, value }));
+
+// Longest common subsequence over the part of both sequences that differs.
+function diffMiddle(before: string[], after: string[]): DiffToken[] {
+    if (before.length * after.length > MAX_DIFF_CELLS) {
+        return [...tokens(before, 'delete'), ...tokens(after, 'insert')];
+    }
+
+    const width = after.length + 1;
+    // lengths[i * width + j] is the LCS length of before[i:] and after[j:].
+    const lengths = new Uint32Array((before.length + 1) * width);
+    for (let i = before.length - 1; i >= 0; i--) {
+        for (let j = after.length - 1; j >= 0; j--) {
+            lengths[i * width + j] = before[i] === after[j]
+                ? lengths[(i + 1) * width + j + 1] + 1
+                : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+        }
+    }
+
+    const result: DiffToken[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < before.length && j < after.length) {
+        if (before[i] === after[j]) {
+            result.push({ operation: 'equal', value: before[i] });
+            i += 1;
+            j += 1;
+        } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+            result.push({ operation: 'delete', value: before[i] });
+            i += 1;
+        } else {
+            result.push({ operation: 'insert', value: after[j] });
+            j += 1;
+        }
+    }
+    return [...result, ...tokens(before.slice(i), 'delete'), ...tokens(after.slice(j), 'insert')];
+}
+
+export function diffTokens(before: string[], after: string[]): DiffToken[] {
+    let start = 0;
+    while (start < before.length && start < after.length && before[start] === after[start]) {
+        start += 1;
+    }
+    let beforeEnd = before.length;
+    let afterEnd = after.length;
+    while (beforeEnd > start && afterEnd > start && before[beforeEnd - 1] === after[afterEnd - 1]) {
+        beforeEnd -= 1;
+        afterEnd -= 1;
+    }
+
+    return [
+        ...tokens(before.slice(0, start), 'equal'),
+        ...diffMiddle(before.slice(start, beforeEnd), after.slice(start, afterEnd)),
+        ...tokens(before.slice(beforeEnd), 'equal'),
+    ];
+}
+
+const splitWords = (text: string) => text.match(WORD_PATTERN) ?? [];
+
+export const diffWords = (before: string, after: string) => diffTokens(splitWords(before), splitWords(after));
+
+// Tags are kept whole so a formatting change shows up as the text it wraps.
+const splitHtml = (html: string) =>
+    html.split(TAG_PATTERN).flatMap((part, index) => (index % 2 === 1 ? [part] : splitWords(part)));
+
+const isTag = (token: string) => token.startsWith('<');
+
+// Rebuilds one side of the diff, wrapping the text only that side has in `wrapper`.
+const renderSide = (diff: DiffToken[], changed: DiffOperation, wrapper: 'ins' | 'del') => {
+    let html = '';
+    let open = false;
+    diff.forEach(({ operation, value }) => {
+        if (operation !== 'equal' && operation !== changed) return;
+
+        const marked = operation === changed && !isTag(value);
+        if (marked !== open) {
+            html += marked ? `<${wrapper}>` : `</${wrapper}>`;
+            open = marked;
+        }
+        html += value;
+    });
+    return open ? `${html}</${wrapper}>` : html;
+};
+
+// Side-by-side diff of two rich-text documents: removed text is wrapped in <del> on the
+// `before` side and added text in <ins> on the `after` side, keeping each side's formatting.
+export function diffHtml(before: string, after: string): { before: string; after: string } {
+    const diff = diffTokens(splitHtml(sanitizeHtml(before)), splitHtml(sanitizeHtml(after)));
+    // Splicing markers in between tokens is only safe for well-formed markup, so sanitize again.
+    return {
+        before: sanitizeHtml(renderSide(diff, 'delete', 'del')),
+        after: sanitizeHtml(renderSide(diff, 'insert', 'ins')),
+    };
+}
@@ -0,0 +1,26 @@
+import { createIdbStore } from './idb';
+
+export interface Draft<T> {
+    key: string;
+    data: T;
+    savedAt: string;
+}
+
+// IndexedDB rather than localStorage, so picked images (File objects) survive a reload as well.
+const runTransaction = createIdbStore('portfolio-cms-drafts', 'drafts', { keyPath: 'key' });
+
+export const drafts = {
+    async get<T>(key: string): Promise<Draft<T> | null> {
+        const draft = await runTransaction<Draft<T> | undefined>('readonly', (store) => store.get(key));
+        return draft ?? null;
+    },
+
+    async save<T>(key: string, data: T): Promise<void> {
+        const draft: Draft<T> = { key, data, savedAt: new Date().toISOString() };
+        await runTransaction('readwrite', (store) => store.put(draft));
+    },
+
+    async remove(key: string): Promise<void> {
+        await runTransaction('readwrite', (store) => store.delete(key));
+    },
+};
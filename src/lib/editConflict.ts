@@ -0,0 +1,36 @@
+import type { z } from 'zod';
+import { ApiError } from '@/lib/apiError';
+import { parseResponse } from '@/lib/responseValidation';
+
+export const EDIT_CONFLICT_CODE = 'EDIT_CONFLICT';
+
+export class EditConflictError<T> extends Error {
+    // The version currently on the server, which the rejected update was not based on.
+    readonly current: T;
+
+    constructor(current: T, message = 'Someone else changed this item after you started editing it.') {
+        super(message);
+        this.name = 'EditConflictError';
+        this.current = current;
+    }
+}
+
+export interface EditConflictState<TEntity, TForm> {
+    server: TEntity;
+    mine: TForm;
+}
+
+export async function detectEditConflict<T, S extends z.ZodType>(
+    request: Promise<T>,
+    schema: S,
+    endpoint: string
+): Promise<T> {
+    try {
+        return await request;
+    } catch (error) {
+        if (error instanceof ApiError && error.status === 409 && error.code === EDIT_CONFLICT_CODE) {
+            throw new EditConflictError(parseResponse(schema, error.data, endpoint), error.message);
+        }
+        throw error;
+    }
+}
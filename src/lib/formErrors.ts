@@ -0,0 +1,19 @@
+import type { FieldValues, Path, UseFormSetError } from 'react-hook-form';
+import { ApiError } from './apiError';
+
+export function applyServerErrors<T extends FieldValues>(
+    error: unknown,
+    setError: UseFormSetError<T>,
+    fields: readonly string[]
+): boolean {
+    if (!(error instanceof ApiError)) return false;
+
+    let applied = false;
+    for (const [field, message] of Object.entries(error.fieldErrors)) {
+        if (fields.includes(field)) {
+            setError(field as Path<T>, { type: 'server', message }, { shouldFocus: !applied });
+            applied = true;
+        }
+    }
+    return applied;
+}
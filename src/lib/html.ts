@@ -0,0 +1,7 @@
+import DOMPurify from 'dompurify';
+
+// Stored rich text can come from any editor in the workspace, so anything that could run script
+// is stripped before it is rendered outside the editor.
+export function sanitizeHtml(html: string): string {
+    return DOMPurify.sanitize(html);
+}
@@ -0,0 +1,40 @@
+export type IdbTransaction = <T>(
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<T>
+) => Promise<T>;
+
+// Opens (lazily, once) a database holding a single object store and returns a function that runs
+// one request against that store in its own transaction.
+export function createIdbStore(
+    dbName: string,
+    storeName: string,
+    parameters?: IDBObjectStoreParameters
+): IdbTransaction {
+    let dbPromise: Promise<IDBDatabase> | null = null;
+
+    const openDb = (): Promise<IDBDatabase> => {
+        if (!dbPromise) {
+            dbPromise = new Promise((resolve, reject) => {
+                const request = indexedDB.open(dbName, 1);
+                request.onupgradeneeded = () => {
+                    request.result.createObjectStore(storeName, parameters);
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+        }
+        return dbPromise;
+    };
+
+    return async (mode, action) => {
+        const db = await openDb();
+        return new Promise((resolve, reject) => {
+            const transaction = db.transaction(storeName, mode);
+            const request = action(transaction.objectStore(storeName));
+            transaction.oncomplete = () => resolve(request.result);
+            transaction.onerror = () => reject(transaction.error);
+            // A quota failure aborts the transaction without an error event.
+            transaction.onabort = () => reject(transaction.error);
+        });
+    };
+}
@@ -4,6 +4,8 @@ export interface CompressionOptions {
     maxSizeMB?: number;
     maxWidthOrHeight?: number;
     useWebWorker?: boolean;
+    onProgress?: (percent: number) => void;
+    signal?: AbortSignal;
 }
 
 const defaultOptions: CompressionOptions = {
@@ -25,14 +27,30 @@ export async function compressImage(
             lastModified: Date.now(),
         });
     } catch (error) {
+        if (options.signal?.aborted) {
+            throw error;
+        }
         console.error('Image compression failed:', error);
         return file;
     }
 }
 
+// Compresses one file at a time so onProgress reports a single percentage for the whole batch.
 export async function compressImages(
     files: File[],
     options: CompressionOptions = {}
 ): Promise<File[]> {
-    return Promise.all(files.map(file => compressImage(file, options)));
+    const { onProgress, ...rest } = options;
+    const compressed: File[] = [];
+
+    for (const [index, file] of files.entries()) {
+        compressed.push(
+            await compressImage(file, {
+                ...rest,
+                onProgress: onProgress && ((percent) => onProgress(Math.round((index * 100 + percent) / files.length))),
+            })
+        );
+    }
+
+    return compressed;
 }
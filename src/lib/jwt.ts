@@ -0,0 +1,19 @@
+interface JwtPayload {
+    exp?: number;
+}
+
+export function decodeJwt(token: string): JwtPayload | null {
+    try {
+        const payload = token.split('.')[1];
+        if (!payload) return null;
+        const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/'));
+        return JSON.parse(json) as JwtPayload;
+    } catch {
+        return null;
+    }
+}
+
+export function getTokenExpiry(token: string): number | null {
+    const exp = decodeJwt(token)?.exp;
+    return typeof exp === 'number' ? exp * 1000 : null;
+}
@@ -0,0 +1,155 @@
+import type { AxiosRequestConfig, InternalAxiosRequestConfig } from 'axios';
+import { createIdbStore } from './idb';
+
+type SerializedFormData = [string, FormDataEntryValue][];
+
+export interface OutboxEntry {
+    id: number;
+    method: string;
+    url: string;
+    body: string | SerializedFormData | null;
+    isFormData: boolean;
+    // Missing on entries queued before it was recorded.
+    contentType?: string | null;
+    userId: string | null;
+    createdAt: string;
+}
+
+// The version of an item a synced update expected, and the version it produced.
+export interface SyncedVersion {
+    from: string;
+    to: string;
+}
+
+type Listener = () => void;
+
+const EXPECTED_VERSION_FIELD = 'expectedUpdatedAt';
+
+// Only content mutations are queued; auth, account and team changes need a live connection.
+const QUEUEABLE_RESOURCES = ['/skills', '/experience', '/education', '/certifications', '/projects', '/user'];
+
+export class OfflineQueuedError extends Error {
+    constructor(message = 'You are offline. The change was saved and will sync when you reconnect.') {
+        super(message);
+        this.name = 'OfflineQueuedError';
+    }
+}
+
+const listeners = new Set<Listener>();
+const runTransaction = createIdbStore('portfolio-cms', 'outbox', { keyPath: 'id', autoIncrement: true });
+
+const notify = () => {
+    listeners.forEach((listener) => listener());
+};
+
+// File and Blob values survive IndexedDB's structured clone, so FormData is stored entry by entry.
+const serializeBody = (data: unknown): OutboxEntry['body'] => {
+    if (data instanceof FormData) return Array.from(data.entries());
+    if (data === undefined || data === null) return null;
+    return typeof data === 'string' ? data : JSON.stringify(data);
+};
+
+const getContentType = (config: InternalAxiosRequestConfig): string | null => {
+    const value = config.headers.getContentType();
+    return typeof value === 'string' ? value : null;
+};
+
+export const isQueueable = (config: AxiosRequestConfig): boolean => {
+    const method = config.method?.toUpperCase();
+    if (!method || method === 'GET' || config.skipOutbox) return false;
+    return QUEUEABLE_RESOURCES.some((resource) => config.url === resource || config.url?.startsWith(`${resource}/`));
+};
+
+// Conditional updates carry the version they were based on as expectedUpdatedAt in their body.
+export const getExpectedVersion = (entry: OutboxEntry): string | null => {
+    let value: unknown = null;
+    if (Array.isArray(entry.body)) {
+        value = entry.body.find(([name]) => name === EXPECTED_VERSION_FIELD)?.[1];
+    } else if (typeof entry.body === 'string') {
+        try {
+            value = JSON.parse(entry.body)?.[EXPECTED_VERSION_FIELD];
+        } catch {
+            value = null;
+        }
+    }
+    return typeof value === 'string' ? value : null;
+};
+
+// Edits of one item queued while offline all expect the version from before the first of them.
+// Once an earlier edit has synced, later ones are moved onto the version it produced, so they
+// don't fail as conflicts with it.
+export const rebaseEntry = (entry: OutboxEntry, synced: SyncedVersion | undefined): OutboxEntry => {
+    if (!synced || getExpectedVersion(entry) !== synced.from) return entry;
+
+    if (Array.isArray(entry.body)) {
+        return {
+            ...entry,
+            body: entry.body.map(([name, value]) => [name, name === EXPECTED_VERSION_FIELD ? synced.to : value]),
+        };
+    }
+    if (typeof entry.body === 'string') {
+        return { ...entry, body: JSON.stringify({ ...JSON.parse(entry.body), [EXPECTED_VERSION_FIELD]: synced.to }) };
+    }
+    return entry;
+};
+
+export const describeEntry = (entry: Pick<OutboxEntry, 'method' | 'url'>): string => {
+    const verbs: Record<string, string> = { POST: 'Create', PUT: 'Update', PATCH: 'Update', DELETE: 'Delete' };
+    const resource = entry.url.split('/').filter(Boolean)[0] ?? entry.url;
+    return `${verbs[entry.method] ?? entry.method} ${resource}`;
+};
+
+export const toRequestConfig = (entry: OutboxEntry): AxiosRequestConfig => {
+    let data: unknown = entry.body;
+    if (entry.isFormData && Array.isArray(entry.body)) {
+        const formData = new FormData();
+        entry.body.forEach(([name, value]) => formData.append(name, value));
+        data = formData;
+    }
+
+    // The api instance defaults to JSON, which would make axios serialize FormData into an object
+    // without its files, so the original content type goes along with the replay.
+    const contentType = entry.isFormData ? 'multipart/form-data' : entry.contentType ?? 'application/json';
+    return {
+        method: entry.method,
+        url: entry.url,
+        data,
+        headers: { 'Content-Type': contentType },
+        skipOutbox: true,
+    };
+};
+
+export const outbox = {
+    async enqueue(config: InternalAxiosRequestConfig, userId: string | null): Promise<void> {
+        const isFormData = config.data instanceof FormData;
+        const entry: Omit<OutboxEntry, 'id'> = {
+            method: config.method!.toUpperCase(),
+            url: config.url!,
+            body: serializeBody(config.data),
+            isFormData,
+            contentType: getContentType(config),
+            userId,
+            createdAt: new Date().toISOString(),
+        };
+
+        await runTransaction('readwrite', (store) => store.add(entry));
+        notify();
+    },
+
+    async getAll(): Promise<OutboxEntry[]> {
+        const entries = await runTransaction<OutboxEntry[]>('readonly', (store) => store.getAll());
+        return entries.sort((a, b) => a.id - b.id);
+    },
+
+    async remove(id: number): Promise<void> {
+        await runTransaction('readwrite', (store) => store.delete(id));
+        notify();
+    },
+
+    subscribe(listener: Listener): () => void {
+        listeners.add(listener);
+        return () => {
+            listeners.delete(listener);
+        };
+    },
+};
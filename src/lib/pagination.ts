@@ -0,0 +1,21 @@
+import type { ListParams, Paginated, PaginationMeta } from '@/types';
+
+export const DEFAULT_PAGE_SIZE = 10;
+
+// Falls back to treating the response as a single page when the server sends no pagination meta.
+export function toPaginated<T>(items: T[], meta: PaginationMeta | undefined, params: ListParams): Paginated<T> {
+    const page = meta?.page ?? params.page ?? 1;
+    const pageSize = meta?.pageSize ?? params.pageSize ?? DEFAULT_PAGE_SIZE;
+    const total = meta?.total ?? items.length;
+    const totalPages = meta?.totalPages ?? Math.max(1, Math.ceil(total / pageSize));
+
+    return { items, page, pageSize, total, totalPages };
+}
+
+export function updateItems<T>(list: Paginated<T> | undefined, updater: (items: T[]) => T[]): Paginated<T> {
+    const current = list ?? { items: [], page: 1, pageSize: DEFAULT_PAGE_SIZE, total: 0, totalPages: 1 };
+    const items = updater(current.items);
+    const total = Math.max(0, current.total + items.length - current.items.length);
+
+    return { ...current, items, total };
+}
@@ -0,0 +1,18 @@
+import type { User, UserRole } from '@/types';
+
+export type Permission = 'content:write' | 'profile:manage' | 'team:manage';
+
+const rolePermissions: Record<UserRole, Permission[]> = {
+    owner: ['content:write', 'profile:manage', 'team:manage'],
+    editor: ['content:write'],
+    viewer: [],
+};
+
+// A user without a role gets the least access rather than the most.
+export function getRole(user: User | null): UserRole {
+    return user?.role ?? 'viewer';
+}
+
+export function hasPermission(user: User | null, permission: Permission): boolean {
+    return rolePermissions[getRole(user)].includes(permission);
+}
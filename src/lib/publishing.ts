@@ -0,0 +1,7 @@
+export type PublicationStatus = 'draft' | 'scheduled' | 'published';
+
+// A project with a future publishedAt is scheduled: the backend keeps it off the public site until then.
+export const getPublicationStatus = (publishedAt: string | null, now: number): PublicationStatus => {
+    if (!publishedAt) return 'draft';
+    return Date.parse(publishedAt) > now ? 'scheduled' : 'published';
+};
@@ -0,0 +1,195 @@
+export interface QueryState<T> {
+    data: T | undefined;
+    error: unknown;
+    updatedAt: number;
+    isFetching: boolean;
+}
+
+type Fetcher<T> = (signal: AbortSignal) => Promise<T>;
+type Listener = () => void;
+
+export const DEFAULT_STALE_TIME = 30_000;
+
+export const queryKeys = {
+    skills: 'skills',
+    experience: 'experience',
+    education: 'education',
+    certifications: 'certifications',
+    projects: 'projects',
+    projectRevisions: 'projectRevisions',
+    userDetails: 'userDetails',
+} as const;
+
+// Builds the cache key for one page of a list, e.g. "projects?page=2&q=react".
+export const listKey = (base: string, params: object): string => {
+    const search = new URLSearchParams();
+    Object.entries(params)
+        .filter(([, value]) => value !== undefined && value !== '')
+        .sort(([a], [b]) => a.localeCompare(b))
+        .forEach(([name, value]) => search.set(name, String(value)));
+
+    const query = search.toString();
+    return query ? `${base}?${query}` : base;
+};
+
+export const createTempId = () => `temp-${crypto.randomUUID()}`;
+
+export const isTempId = (id: string) => id.startsWith('temp-');
+
+const emptyState: QueryState<unknown> = {
+    data: undefined,
+    error: null,
+    updatedAt: 0,
+    isFetching: false,
+};
+
+const states = new Map<string, QueryState<unknown>>();
+const fetchers = new Map<string, Fetcher<unknown>>();
+const inFlight = new Map<string, Promise<unknown>>();
+const controllers = new Map<string, AbortController>();
+const listeners = new Map<string, Set<Listener>>();
+// Bumped whenever a key is changed optimistically or invalidated, so responses from older fetches are dropped.
+const versions = new Map<string, number>();
+
+const bumpVersion = (key: string) => {
+    versions.set(key, (versions.get(key) ?? 0) + 1);
+};
+
+const cancelInFlight = (key: string) => {
+    controllers.get(key)?.abort();
+    controllers.delete(key);
+    inFlight.delete(key);
+};
+
+const setState = (key: string, patch: Partial<QueryState<unknown>>) => {
+    states.set(key, { ...(states.get(key) ?? emptyState), ...patch });
+    listeners.get(key)?.forEach((listener) => listener());
+};
+
+export const queryCache = {
+    getState<T>(key: string): QueryState<T> {
+        return (states.get(key) ?? emptyState) as QueryState<T>;
+    },
+
+    subscribe(key: string, listener: Listener): () => void {
+        const keyListeners = listeners.get(key) ?? new Set<Listener>();
+        keyListeners.add(listener);
+        listeners.set(key, keyListeners);
+        return () => {
+            keyListeners.delete(listener);
+            // Nobody is showing this key anymore, so there's no point finishing its request.
+            if (keyListeners.size === 0 && inFlight.has(key)) {
+                bumpVersion(key);
+                cancelInFlight(key);
+                setState(key, { isFetching: false });
+            }
+        };
+    },
+
+    isStale(key: string, staleTime: number): boolean {
+        return Date.now() - this.getState(key).updatedAt > staleTime;
+    },
+
+    fetch<T>(key: string, fetcher?: Fetcher<T>): Promise<T> {
+        if (fetcher) {
+            fetchers.set(key, fetcher as Fetcher<unknown>);
+        }
+
+        const pending = inFlight.get(key);
+        if (pending) {
+            return pending as Promise<T>;
+        }
+
+        const run = fetchers.get(key) as Fetcher<T> | undefined;
+        if (!run) {
+            return Promise.reject(new Error(`No fetcher registered for "${key}"`));
+        }
+
+        const version = versions.get(key) ?? 0;
+        const isCurrent = () => (versions.get(key) ?? 0) === version;
+
+        const controller = new AbortController();
+        controllers.set(key, controller);
+
+        setState(key, { isFetching: true });
+        const promise: Promise<T> = run(controller.signal)
+            .then((data) => {
+                if (isCurrent()) {
+                    setState(key, { data, error: null, updatedAt: Date.now(), isFetching: false });
+                }
+                return data;
+            })
+            .catch((error) => {
+                if (isCurrent()) {
+                    setState(key, { error, isFetching: false });
+                }
+                throw error;
+            })
+            .finally(() => {
+                if (inFlight.get(key) === promise) {
+                    inFlight.delete(key);
+                    controllers.delete(key);
+                }
+            });
+
+        inFlight.set(key, promise);
+        return promise;
+    },
+
+    // Writes data the server has confirmed, e.g. the item a save returned. A fetch still in
+    // flight is left alone: after a save it is the revalidation the service started, and its
+    // response carries the server's ordering and totals.
+    setData<T>(key: string, updater: T | ((previous: T | undefined) => T)) {
+        const previous = this.getState<T>(key).data;
+        const data = typeof updater === 'function'
+            ? (updater as (previous: T | undefined) => T)(previous)
+            : updater;
+        setState(key, { data, updatedAt: Date.now(), isFetching: inFlight.has(key) });
+    },
+
+    // Applies a local change right away and returns a function that undoes it. A response
+    // already on its way predates the change and would undo it, so it is dropped.
+    optimistic<T>(key: string, updater: (previous: T | undefined) => T): () => void {
+        const previous = this.getState<T>(key).data;
+        bumpVersion(key);
+        cancelInFlight(key);
+        this.setData(key, updater);
+        return () => {
+            this.setData(key, previous as T);
+            this.invalidate(key);
+        };
+    },
+
+    // Marks the given keys, and every list page derived from them, stale and refetches
+    // the ones a mounted page is currently showing.
+    invalidate(...keys: string[]) {
+        const matches = (key: string) => keys.some((base) => key === base || key.startsWith(`${base}?`));
+
+        Array.from(states.keys()).filter(matches).forEach((key) => {
+            bumpVersion(key);
+            cancelInFlight(key);
+            setState(key, { updatedAt: 0, isFetching: false });
+            if (listeners.get(key)?.size) {
+                this.fetch(key).catch(() => undefined);
+            }
+        });
+    },
+
+    clear() {
+        controllers.forEach((controller, key) => {
+            bumpVersion(key);
+            controller.abort();
+        });
+        controllers.clear();
+        states.clear();
+        inFlight.clear();
+    },
+};
+
+window.addEventListener('focus', () => {
+    listeners.forEach((keyListeners, key) => {
+        if (keyListeners.size && queryCache.isStale(key, DEFAULT_STALE_TIME)) {
+            queryCache.fetch(key).catch(() => undefined);
+        }
+    });
+});
@@ -0,0 +1,28 @@
+export const REDIRECT_PARAM = 'redirect';
+
+const DEFAULT_REDIRECT = '/';
+
+export function getSafeRedirect(value: string | null): string {
+    if (!value || !value.startsWith('/')) {
+        return DEFAULT_REDIRECT;
+    }
+
+    try {
+        // Resolving against our own origin rejects protocol-relative and backslash tricks.
+        const url = new URL(value, window.location.origin);
+        if (url.origin !== window.location.origin || url.pathname.startsWith('/login')) {
+            return DEFAULT_REDIRECT;
+        }
+        return `${url.pathname}${url.search}${url.hash}`;
+    } catch {
+        return DEFAULT_REDIRECT;
+    }
+}
+
+export function buildLoginPath(location: { pathname: string; search: string }): string {
+    const target = `${location.pathname}${location.search}`;
+    if (target === DEFAULT_REDIRECT || location.pathname.startsWith('/login')) {
+        return '/login';
+    }
+    return `/login?${REDIRECT_PARAM}=${encodeURIComponent(target)}`;
+}
@@ -0,0 +1,32 @@
+import type { z } from 'zod';
+
+type Issue = z.ZodError['issues'][number];
+
+const formatIssue = (issue: Issue) => {
+    const path = issue.path.map(String).join('.') || '(root)';
+    return `  - ${path}: ${issue.message}`;
+};
+
+// Thrown when the backend answers with a shape the client doesn't understand, e.g. a renamed field.
+export class ResponseValidationError extends Error {
+    readonly endpoint: string;
+    readonly issues: Issue[];
+
+    constructor(endpoint: string, issues: Issue[]) {
+        super(`Unexpected response from ${endpoint}:\n${issues.map(formatIssue).join('\n')}`);
+        this.name = 'ResponseValidationError';
+        this.endpoint = endpoint;
+        this.issues = issues;
+    }
+}
+
+export function parseResponse<T extends z.ZodType>(schema: T, data: unknown, endpoint: string): z.infer<T> {
+    const result = schema.safeParse(data);
+    if (result.success) {
+        return result.data;
+    }
+
+    const error = new ResponseValidationError(endpoint, result.error.issues);
+    console.error(error.message, { received: data });
+    throw error;
+}
@@ -0,0 +1,99 @@
+import type { AxiosError, AxiosRequestConfig } from 'axios';
+import toast from 'react-hot-toast';
+
+export interface RetryPolicy {
+    retries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    // Opts a non-idempotent request (POST, PUT, PATCH) into retries. Never set it on conditional
+    // updates: if only the response is lost, the retry conflicts with the first attempt's own write.
+    safe: boolean;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    retries: 3,
+    baseDelayMs: 500,
+    maxDelayMs: 8_000,
+    safe: false,
+};
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'DELETE'];
+const RETRYABLE_STATUSES = [429, 502, 503, 504];
+const RETRY_AFTER_STATUSES = [429, 503];
+const MAX_RETRY_AFTER_MS = 60_000;
+const RETRY_TOAST_ID = 'api-retry';
+
+let activeRetries = 0;
+
+export const resolveRetryPolicy = (config: AxiosRequestConfig): RetryPolicy | null => {
+    if (config.retry === false) return null;
+    return { ...DEFAULT_RETRY_POLICY, ...config.retry };
+};
+
+// Retry-After is either a number of seconds or an HTTP date.
+const parseRetryAfter = (value: unknown): number | null => {
+    if (typeof value !== 'string' || !value.trim()) return null;
+
+    const seconds = Number(value);
+    if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+// Returns how long to wait before the next attempt, or null when the request shouldn't be retried.
+export const getRetryDelay = (error: AxiosError, policy: RetryPolicy, attempt: number): number | null => {
+    const config = error.config;
+    if (!config || attempt >= policy.retries) return null;
+
+    const method = config.method?.toUpperCase() ?? 'GET';
+    if (!IDEMPOTENT_METHODS.includes(method) && !policy.safe) return null;
+
+    const status = error.response?.status;
+    if (status !== undefined && !RETRYABLE_STATUSES.includes(status)) return null;
+
+    if (status !== undefined && RETRY_AFTER_STATUSES.includes(status)) {
+        const retryAfter = parseRetryAfter(error.response?.headers['retry-after']);
+        if (retryAfter !== null) {
+            return retryAfter <= MAX_RETRY_AFTER_MS ? retryAfter : null;
+        }
+    }
+
+    // Full jitter keeps many clients from retrying in lockstep after an outage.
+    const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+    return Math.round(Math.random() * ceiling);
+};
+
+export const waitForRetry = (ms: number, signal?: AbortSignal | null): Promise<void> =>
+    new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+
+        const timeout = window.setTimeout(() => {
+            signal?.removeEventListener('abort', handleAbort);
+            resolve();
+        }, ms);
+
+        const handleAbort = () => {
+            window.clearTimeout(timeout);
+            reject(signal?.reason);
+        };
+
+        signal?.addEventListener('abort', handleAbort, { once: true });
+    });
+
+export const retryNotice = {
+    show() {
+        activeRetries += 1;
+        toast.loading('Connection problem. Retrying…', { id: RETRY_TOAST_ID });
+    },
+
+    hide() {
+        activeRetries = Math.max(0, activeRetries - 1);
+        if (activeRetries === 0) {
+            toast.dismiss(RETRY_TOAST_ID);
+        }
+    },
+};
@@ -0,0 +1,26 @@
+// Resolves once the work is saved; rejects with a user-facing message when it can't be,
+// e.g. because the form doesn't validate.
+type SaveHandler = () => Promise<void>;
+
+const handlers = new Set<SaveHandler>();
+
+export function registerUnsavedWork(handler: SaveHandler): () => void {
+    handlers.add(handler);
+    return () => {
+        handlers.delete(handler);
+    };
+}
+
+export function hasUnsavedWork(): boolean {
+    return handlers.size > 0;
+}
+
+// Returns the reasons any work could not be saved; empty when everything was.
+export async function saveUnsavedWork(): Promise<string[]> {
+    const results = await Promise.allSettled(Array.from(handlers).map((handler) => handler()));
+    return results.flatMap((result) =>
+        result.status === 'rejected'
+            ? [result.reason instanceof Error ? result.reason.message : 'Some changes could not be saved']
+            : []
+    );
+}
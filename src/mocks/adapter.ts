@@ -0,0 +1,104 @@
+import { AxiosError, AxiosHeaders, CanceledError, type AxiosAdapter, type InternalAxiosRequestConfig } from 'axios';
+import { mockDb } from './db';
+import { routes } from './handlers';
+import { dispatch } from './router';
+
+const LATENCY_MS = 250;
+const UPLOAD_STEPS = 4;
+
+const wait = (ms: number, config: InternalAxiosRequestConfig) =>
+    new Promise<void>((resolve, reject) => {
+        const signal = config.signal as AbortSignal | undefined;
+        const abort = () => {
+            window.clearTimeout(timeout);
+            reject(new CanceledError(undefined, AxiosError.ERR_CANCELED, config));
+        };
+        const timeout = window.setTimeout(() => {
+            signal?.removeEventListener('abort', abort);
+            resolve();
+        }, ms);
+
+        if (signal?.aborted) {
+            abort();
+            return;
+        }
+        signal?.addEventListener('abort', abort, { once: true });
+    });
+
+const parseBody = (data: unknown): Record<string, unknown> => {
+    if (typeof data !== 'string' || !data) return {};
+    try {
+        return JSON.parse(data);
+    } catch {
+        return {};
+    }
+};
+
+const toQuery = (url: URL, params: unknown): Record<string, string> => {
+    const query = Object.fromEntries(url.searchParams);
+    Object.entries((params ?? {}) as Record<string, unknown>).forEach(([key, value]) => {
+        if (value !== undefined && value !== null) {
+            query[key] = String(value);
+        }
+    });
+    return query;
+};
+
+// Reports a few progress steps so upload UI behaves the same as against the real API.
+const simulateUpload = async (form: FormData, config: InternalAxiosRequestConfig) => {
+    const total = Array.from(form.values()).reduce(
+        (size, value) => size + (typeof value === 'string' ? value.length : value.size),
+        0
+    );
+
+    for (let step = 1; step <= UPLOAD_STEPS; step += 1) {
+        await wait(LATENCY_MS / UPLOAD_STEPS, config);
+        const loaded = Math.round((total * step) / UPLOAD_STEPS);
+        config.onUploadProgress?.({
+            loaded,
+            total,
+            progress: step / UPLOAD_STEPS,
+            bytes: total / UPLOAD_STEPS,
+            upload: true,
+            lengthComputable: true,
+        });
+    }
+};
+
+export const mockAdapter: AxiosAdapter = async (config) => {
+    const url = new URL(config.url ?? '/', 'http://mock.local');
+    const form = config.data instanceof FormData ? config.data : null;
+
+    if (form) {
+        await simulateUpload(form, config);
+    } else {
+        await wait(LATENCY_MS, config);
+    }
+
+    const headers = AxiosHeaders.from(config.headers);
+    const { status, body } = await dispatch(routes, {
+        method: (config.method ?? 'get').toUpperCase(),
+        path: url.pathname,
+        query: toQuery(url, config.params),
+        body: form ? {} : parseBody(config.data),
+        form,
+        authorization: headers.get('Authorization')?.toString() ?? null,
+        clientId: headers.get('X-Client-Id')?.toString() ?? null,
+    });
+
+    const response = { data: body, status, statusText: String(status), headers: {}, config, request: null };
+    if (status >= 200 && status < 300) {
+        return response;
+    }
+
+    const message = (body as { error?: string }).error ?? `Request failed with status code ${status}`;
+    throw new AxiosError(
+        message,
+        status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        config,
+        null,
+        response
+    );
+};
+
+export const resetMockApi = () => mockDb.reset();
@@ -0,0 +1,107 @@
+import type { Certification, Education, Experience, Project, ProjectRevision, Skill, User, UserDetails, UserRole } from '@/types';
+import { createIdbStore } from '@/lib/idb';
+import { createFixtures } from './fixtures';
+
+export interface MockUser extends User {
+    role: UserRole;
+    password: string;
+    workspaceId: string;
+    twoFactorEnabled: boolean;
+    twoFactorSecret: string | null;
+    pendingTwoFactorSecret: string | null;
+    recoveryCodes: string[];
+    createdAt: string;
+}
+
+export interface MockSession {
+    id: string;
+    userId: string;
+    refreshToken: string;
+    device: string;
+    createdAt: string;
+    lastSeenAt: string;
+}
+
+export interface MockInvitation {
+    id: string;
+    workspaceId: string;
+    email: string;
+    role: Exclude<UserRole, 'owner'>;
+    createdAt: string;
+}
+
+// Relations are stored as id lists and expanded into the API shape when serialized.
+export type MockExperience = Omit<Experience, 'experienceSkills'> & { skillIds: string[] };
+export type MockCertification = Omit<Certification, 'certificationSkills'> & { skillIds: string[] };
+export type MockProject = Omit<Project, 'projectSkills'> & { skillIds: string[] };
+export type MockProjectRevision = ProjectRevision & { userId: string };
+
+export interface MockTables {
+    users: MockUser[];
+    sessions: MockSession[];
+    invitations: MockInvitation[];
+    skills: Skill[];
+    experience: MockExperience[];
+    education: Education[];
+    certifications: MockCertification[];
+    projects: MockProject[];
+    projectRevisions: MockProjectRevision[];
+    userDetails: UserDetails[];
+}
+
+export type MockTableName = keyof MockTables;
+
+const runTransaction = createIdbStore('portfolio-cms-mock', 'tables');
+
+let tablesPromise: Promise<MockTables> | null = null;
+
+const writeTables = async (tables: Partial<MockTables>) => {
+    for (const [name, rows] of Object.entries(tables)) {
+        await runTransaction('readwrite', (store) => store.put(rows, name));
+    }
+};
+
+const loadTables = async (): Promise<MockTables> => {
+    const fixtures = createFixtures();
+    const names = Object.keys(fixtures) as MockTableName[];
+    const stored = await Promise.all(
+        names.map((name) => runTransaction<unknown>('readonly', (store) => store.get(name)))
+    );
+
+    // First run (or a table added since): seed whatever is missing from the fixtures.
+    const missing = names.filter((_, index) => stored[index] === undefined);
+    if (missing.length > 0) {
+        await writeTables(Object.fromEntries(missing.map((name) => [name, fixtures[name]])));
+    }
+
+    return Object.fromEntries(
+        names.map((name, index) => [name, stored[index] ?? fixtures[name]])
+    ) as unknown as MockTables;
+};
+
+const getTables = () => {
+    if (!tablesPromise) {
+        tablesPromise = loadTables();
+    }
+    return tablesPromise;
+};
+
+export const mockDb = {
+    async get<K extends MockTableName>(name: K): Promise<MockTables[K]> {
+        return (await getTables())[name];
+    },
+
+    async set<K extends MockTableName>(name: K, rows: MockTables[K]): Promise<void> {
+        const tables = await getTables();
+        tables[name] = rows;
+        await writeTables({ [name]: rows });
+    },
+
+    // Drops everything and restores the fixture data.
+    async reset(): Promise<void> {
+        const fixtures = createFixtures();
+        await runTransaction('readwrite', (store) => store.clear());
+        await writeTables(fixtures);
+        tablesPromise = Promise.resolve(fixtures);
+    },
+};
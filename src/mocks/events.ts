@@ -0,0 +1,83 @@
+import type { EntityChangeEvent } from '@/types';
+import type { EventStreamOptions } from '@/services/events';
+import { ApiError } from '@/lib/apiError';
+import { authenticate, MockHttpError, type AuthenticatedRequest } from './http';
+
+interface ChangeMessage {
+    workspaceId: string;
+    event: EntityChangeEvent;
+}
+
+// Every tab runs its own mock backend on top of the shared IndexedDB, so changes are fanned out
+// over a BroadcastChannel. A channel never delivers a message back to the instance that posted it,
+// which keeps a tab from hearing about its own writes.
+const channel = new BroadcastChannel('portfolio-cms-mock-events');
+
+export const publishChange = (
+    request: AuthenticatedRequest,
+    resource: EntityChangeEvent['resource'],
+    action: EntityChangeEvent['action'],
+    row: { id: string; updatedAt: string }
+) => {
+    const message: ChangeMessage = {
+        workspaceId: request.user.workspaceId,
+        event: {
+            resource,
+            action,
+            id: row.id,
+            updatedAt: action === 'deleted' ? null : row.updatedAt,
+            origin: request.clientId,
+        },
+    };
+    channel.postMessage(message);
+};
+
+export async function streamMockEvents({
+    signal,
+    onOpen,
+    onMessage,
+    authorization,
+}: EventStreamOptions & { authorization: string | null }): Promise<void> {
+    let request: AuthenticatedRequest;
+    try {
+        request = await authenticate({
+            method: 'GET',
+            path: '/events',
+            params: {},
+            query: {},
+            body: {},
+            form: null,
+            authorization,
+            clientId: null,
+        });
+    } catch (error) {
+        if (error instanceof MockHttpError) {
+            throw new ApiError(error.message, { status: error.status });
+        }
+        throw error;
+    }
+
+    return new Promise((resolve) => {
+        if (signal.aborted) {
+            resolve();
+            return;
+        }
+
+        const handleMessage = ({ data }: MessageEvent<ChangeMessage>) => {
+            if (data.workspaceId === request.user.workspaceId) {
+                onMessage(data.event);
+            }
+        };
+
+        channel.addEventListener('message', handleMessage);
+        signal.addEventListener(
+            'abort',
+            () => {
+                channel.removeEventListener('message', handleMessage);
+                resolve();
+            },
+            { once: true }
+        );
+        onOpen();
+    });
+}
@@ -0,0 +1,193 @@
+import type { MockTables } from './db';
+import { snapshotProject } from './revisions';
+
+export const DEMO_CREDENTIALS = {
+    identifier: 'demo@example.com',
+    password: 'Demo1234',
+};
+
+const OWNER_ID = 'user-demo';
+
+const iconFor = (label: string, color: string) =>
+    `data:image/svg+xml,${encodeURIComponent(
+        `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 64 64"><rect width="64" height="64" rx="12" fill="${color}"/><text x="32" y="40" font-family="sans-serif" font-size="22" font-weight="bold" fill="#fff" text-anchor="middle">${label}</text></svg>`
+    )}`;
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 86_400_000).toISOString();
+
+export function createFixtures(): MockTables {
+    const skills = [
+        { id: 'skill-ts', name: 'TypeScript', icon: iconFor('TS', '#3178c6'), createdAt: daysAgo(120) },
+        { id: 'skill-react', name: 'React', icon: iconFor('Re', '#149eca'), createdAt: daysAgo(118) },
+        { id: 'skill-node', name: 'Node.js', icon: iconFor('No', '#3c873a'), createdAt: daysAgo(110) },
+        { id: 'skill-postgres', name: 'PostgreSQL', icon: iconFor('PG', '#336791'), createdAt: daysAgo(90) },
+        { id: 'skill-docker', name: 'Docker', icon: iconFor('Do', '#1d63ed'), createdAt: daysAgo(60) },
+    ].map((skill) => ({ ...skill, userId: OWNER_ID, updatedAt: skill.createdAt }));
+
+    const projects: MockTables['projects'] = [
+        {
+            id: 'project-portfolio',
+            userId: OWNER_ID,
+            title: 'Portfolio Site',
+            slug: 'portfolio-site',
+            description: 'The public site that renders content managed in this CMS.',
+            content: '<h2>Overview</h2><p>A statically generated portfolio fed by the CMS API.</p>',
+            coverImage: null,
+            contentImages: [],
+            publishedAt: daysAgo(30),
+            highlighted: true,
+            skillIds: ['skill-ts', 'skill-react'],
+            createdAt: daysAgo(40),
+            updatedAt: daysAgo(30),
+        },
+        {
+            id: 'project-cli',
+            userId: OWNER_ID,
+            title: 'Deploy CLI',
+            slug: 'deploy-cli',
+            description: 'A small CLI that wraps our container deploys.',
+            content: '<p>Work in progress.</p>',
+            coverImage: null,
+            contentImages: [],
+            publishedAt: null,
+            highlighted: false,
+            skillIds: ['skill-node', 'skill-docker'],
+            createdAt: daysAgo(10),
+            updatedAt: daysAgo(10),
+        },
+    ];
+
+    const author = { id: OWNER_ID, name: 'Demo Owner' };
+    const [portfolio, cli] = projects;
+    const projectRevisions: MockTables['projectRevisions'] = [
+        {
+            ...snapshotProject({
+                ...portfolio,
+                title: 'Portfolio',
+                content: '<h2>Overview</h2><p>A portfolio fed by the CMS API.</p>',
+                publishedAt: null,
+                highlighted: false,
+                skillIds: ['skill-ts'],
+            }, skills, author),
+            id: 'revision-portfolio-1',
+            restoredFrom: null,
+            createdAt: portfolio.createdAt,
+        },
+        {
+            ...snapshotProject(portfolio, skills, author),
+            id: 'revision-portfolio-2',
+            restoredFrom: null,
+            createdAt: portfolio.updatedAt,
+        },
+        {
+            ...snapshotProject(cli, skills, author),
+            id: 'revision-cli-1',
+            restoredFrom: null,
+            createdAt: cli.updatedAt,
+        },
+    ];
+
+    return {
+        users: [
+            {
+                id: OWNER_ID,
+                email: DEMO_CREDENTIALS.identifier,
+                username: 'demo',
+                name: 'Demo Owner',
+                role: 'owner',
+                password: DEMO_CREDENTIALS.password,
+                workspaceId: OWNER_ID,
+                twoFactorEnabled: false,
+                twoFactorSecret: null,
+                pendingTwoFactorSecret: null,
+                recoveryCodes: [],
+                createdAt: daysAgo(200),
+            },
+            {
+                id: 'user-editor',
+                email: 'editor@example.com',
+                username: 'editor',
+                name: 'Demo Editor',
+                role: 'editor',
+                password: DEMO_CREDENTIALS.password,
+                workspaceId: OWNER_ID,
+                twoFactorEnabled: false,
+                twoFactorSecret: null,
+                pendingTwoFactorSecret: null,
+                recoveryCodes: [],
+                createdAt: daysAgo(150),
+            },
+        ],
+        sessions: [],
+        invitations: [
+            { id: 'invite-viewer', workspaceId: OWNER_ID, email: 'viewer@example.com', role: 'viewer', createdAt: daysAgo(3) },
+        ],
+        skills,
+        experience: [
+            {
+                id: 'experience-acme',
+                userId: OWNER_ID,
+                startYear: 2021,
+                endYear: null,
+                companyName: 'Acme Corp',
+                description: 'Lead frontend engineer on the customer dashboard.',
+                location: 'Remote',
+                skillIds: ['skill-ts', 'skill-react'],
+                createdAt: daysAgo(100),
+                updatedAt: daysAgo(100),
+            },
+            {
+                id: 'experience-globex',
+                userId: OWNER_ID,
+                startYear: 2018,
+                endYear: 2021,
+                companyName: 'Globex',
+                description: 'Built internal APIs and data pipelines.',
+                location: 'Jakarta',
+                skillIds: ['skill-node', 'skill-postgres'],
+                createdAt: daysAgo(99),
+                updatedAt: daysAgo(99),
+            },
+        ],
+        education: [
+            {
+                id: 'education-university',
+                userId: OWNER_ID,
+                year: '2014-2018',
+                institutionName: 'University of Technology',
+                description: 'Bachelor of Science in Computer Science',
+                createdAt: daysAgo(98),
+                updatedAt: daysAgo(98),
+            },
+        ],
+        certifications: [
+            {
+                id: 'certification-cloud',
+                userId: OWNER_ID,
+                name: 'Cloud Practitioner',
+                issuingOrganization: 'Cloud Academy',
+                year: 2023,
+                description: null,
+                certificateLink: 'https://example.com/certificates/cloud',
+                skillIds: ['skill-docker'],
+                createdAt: daysAgo(80),
+                updatedAt: daysAgo(80),
+            },
+        ],
+        projects,
+        projectRevisions,
+        userDetails: [
+            {
+                id: 'details-demo',
+                userId: OWNER_ID,
+                name: 'Demo Owner',
+                role: 'Full-stack Developer',
+                description: 'Building web products end to end.',
+                socialMedias: ['https://github.com/demo'],
+                profilePhoto: null,
+                createdAt: daysAgo(200),
+                updatedAt: daysAgo(200),
+            },
+        ],
+    };
+}
@@ -0,0 +1,274 @@
+import type { Session, User } from '@/types';
+import { mockDb, type MockSession, type MockUser } from '../db';
+import { createId, MockHttpError, ok, requireFields, signToken, verifyToken, type AuthenticatedRequest } from '../http';
+import { publicRoute, route } from '../router';
+
+const CHALLENGE_TTL_S = 5 * 60;
+// Sliding: every refresh issues a token that lives this long again, so only idle sessions expire.
+const REFRESH_TOKEN_TTL_S = 12 * 60 * 60;
+const RECOVERY_CODE_COUNT = 8;
+
+export const toUser = ({ id, email, username, name, role, twoFactorEnabled }: MockUser): User => ({
+    id,
+    email,
+    username,
+    name,
+    role,
+    twoFactorEnabled,
+});
+
+const randomString = (length: number, alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567') =>
+    Array.from(crypto.getRandomValues(new Uint8Array(length)), (byte) => alphabet[byte % alphabet.length]).join('');
+
+const createRecoveryCodes = () =>
+    Array.from({ length: RECOVERY_CODE_COUNT }, () => `${randomString(4)}-${randomString(4)}`.toLowerCase());
+
+const issueRefreshToken = (sessionId: string) =>
+    signToken({ purpose: 'refresh', sid: sessionId, jti: randomString(16) }, REFRESH_TOKEN_TTL_S);
+
+const updateUser = async (userId: string, changes: Partial<MockUser>): Promise<MockUser> => {
+    const users = await mockDb.get('users');
+    const updated = users.map((user) => (user.id === userId ? { ...user, ...changes } : user));
+    await mockDb.set('users', updated);
+    return updated.find((user) => user.id === userId)!;
+};
+
+const startSession = async (user: MockUser) => {
+    const now = new Date().toISOString();
+    const sessionId = createId('session');
+    const session: MockSession = {
+        id: sessionId,
+        userId: user.id,
+        refreshToken: issueRefreshToken(sessionId),
+        device: navigator.userAgent,
+        createdAt: now,
+        lastSeenAt: now,
+    };
+    await mockDb.set('sessions', [...(await mockDb.get('sessions')), session]);
+
+    return {
+        user: toUser(user),
+        token: signToken({ purpose: 'access', sub: user.id, sid: session.id }),
+        refreshToken: session.refreshToken,
+    };
+};
+
+// Any six digits pass as a TOTP code; recovery codes are checked for real and consumed.
+const verifySecondFactor = async (user: MockUser, code: string) => {
+    const normalized = code.trim().toLowerCase();
+    if (/^\d{6}$/.test(normalized)) return;
+
+    if (user.recoveryCodes.includes(normalized)) {
+        await updateUser(user.id, { recoveryCodes: user.recoveryCodes.filter((candidate) => candidate !== normalized) });
+        return;
+    }
+
+    throw new MockHttpError(400, 'Invalid verification code', { code: 'Invalid verification code' });
+};
+
+const requireTwoFactorCode = async (request: AuthenticatedRequest) => {
+    const code = String(request.body.code ?? '');
+    requireFields({ code }, { code: 'Code' });
+    await verifySecondFactor(request.user, code);
+};
+
+const toSession = (session: MockSession, currentId: string): Session => ({
+    id: session.id,
+    device: session.device,
+    ipAddress: '127.0.0.1',
+    lastSeenAt: session.lastSeenAt,
+    createdAt: session.createdAt,
+    current: session.id === currentId,
+});
+
+export const authRoutes = [
+    publicRoute('POST', '/auth/login', async ({ body }) => {
+        const identifier = String(body.identifier ?? '').toLowerCase();
+        const user = (await mockDb.get('users')).find(
+            (candidate) => candidate.email.toLowerCase() === identifier || candidate.username.toLowerCase() === identifier
+        );
+        if (!user || user.password !== body.password) {
+            throw new MockHttpError(401, 'Invalid credentials');
+        }
+
+        if (user.twoFactorEnabled) {
+            return ok({
+                twoFactorRequired: true,
+                challengeToken: signToken({ purpose: '2fa', sub: user.id }, CHALLENGE_TTL_S),
+            });
+        }
+
+        return ok(await startSession(user));
+    }),
+
+    publicRoute('POST', '/auth/2fa/verify', async ({ body }) => {
+        const challenge = verifyToken(String(body.challengeToken ?? ''), '2fa');
+        const user = challenge && (await mockDb.get('users')).find((candidate) => candidate.id === challenge.sub);
+        if (!user) {
+            throw new MockHttpError(401, 'Your sign-in attempt expired. Please log in again.');
+        }
+
+        await verifySecondFactor(user, String(body.code ?? ''));
+        return ok(await startSession(user));
+    }),
+
+    publicRoute('POST', '/auth/register', async ({ body }) => {
+        const data = {
+            email: String(body.email ?? '').trim(),
+            username: String(body.username ?? '').trim(),
+            name: String(body.name ?? '').trim(),
+            password: String(body.password ?? ''),
+        };
+        requireFields(data, { email: 'Email', username: 'Username', name: 'Name', password: 'Password' });
+
+        const users = await mockDb.get('users');
+        const errors: Record<string, string> = {};
+        if (users.some((user) => user.email.toLowerCase() === data.email.toLowerCase())) {
+            errors.email = 'Email is already registered';
+        }
+        if (users.some((user) => user.username.toLowerCase() === data.username.toLowerCase())) {
+            errors.username = 'Username is already taken';
+        }
+        if (Object.keys(errors).length > 0) {
+            throw new MockHttpError(409, 'Account already exists', errors);
+        }
+
+        const id = createId('user');
+        const user: MockUser = {
+            ...data,
+            id,
+            role: 'owner',
+            workspaceId: id,
+            twoFactorEnabled: false,
+            twoFactorSecret: null,
+            pendingTwoFactorSecret: null,
+            recoveryCodes: [],
+            createdAt: new Date().toISOString(),
+        };
+        await mockDb.set('users', [...users, user]);
+
+        return ok(await startSession(user), 201);
+    }),
+
+    publicRoute('POST', '/auth/refresh', async ({ body }) => {
+        const sessions = await mockDb.get('sessions');
+        const session = sessions.find((candidate) => candidate.refreshToken === body.refreshToken);
+        if (!session || !verifyToken(session.refreshToken, 'refresh')) {
+            throw new MockHttpError(401, 'Invalid refresh token');
+        }
+
+        const rotated = { ...session, refreshToken: issueRefreshToken(session.id), lastSeenAt: new Date().toISOString() };
+        await mockDb.set('sessions', sessions.map((candidate) => (candidate.id === session.id ? rotated : candidate)));
+
+        return ok({
+            token: signToken({ purpose: 'access', sub: session.userId, sid: session.id }),
+            refreshToken: rotated.refreshToken,
+        });
+    }),
+
+    publicRoute('POST', '/auth/logout', async ({ body }) => {
+        const sessions = await mockDb.get('sessions');
+        await mockDb.set('sessions', sessions.filter((session) => session.refreshToken !== body.refreshToken));
+        return ok();
+    }),
+
+    route('GET', '/auth/me', ({ user }) => ok(toUser(user))),
+
+    route('PUT', '/auth/me', async ({ user, body }) => {
+        const data = {
+            name: String(body.name ?? '').trim(),
+            email: String(body.email ?? '').trim(),
+            username: String(body.username ?? '').trim(),
+        };
+        requireFields(data, { name: 'Name', email: 'Email', username: 'Username' });
+
+        const others = (await mockDb.get('users')).filter((candidate) => candidate.id !== user.id);
+        const errors: Record<string, string> = {};
+        if (others.some((other) => other.email.toLowerCase() === data.email.toLowerCase())) {
+            errors.email = 'Email is already in use';
+        }
+        if (others.some((other) => other.username.toLowerCase() === data.username.toLowerCase())) {
+            errors.username = 'Username is already taken';
+        }
+        if (Object.keys(errors).length > 0) {
+            throw new MockHttpError(409, 'Profile could not be updated', errors);
+        }
+
+        return ok(toUser(await updateUser(user.id, data)));
+    }),
+
+    route('PUT', '/auth/password', async ({ user, body }) => {
+        if (body.currentPassword !== user.password) {
+            throw new MockHttpError(400, 'Current password is incorrect', {
+                currentPassword: 'Current password is incorrect',
+            });
+        }
+        requireFields(body, { newPassword: 'New password' });
+
+        await updateUser(user.id, { password: String(body.newPassword) });
+        return ok();
+    }),
+
+    route('GET', '/auth/sessions', async ({ user, sessionId }) => {
+        const sessions = (await mockDb.get('sessions')).filter((session) => session.userId === user.id);
+        return ok(sessions.map((session) => toSession(session, sessionId)));
+    }),
+
+    route('DELETE', '/auth/sessions', async ({ user, sessionId }) => {
+        const sessions = await mockDb.get('sessions');
+        await mockDb.set('sessions', sessions.filter((session) => session.userId !== user.id || session.id === sessionId));
+        return ok();
+    }),
+
+    route('DELETE', '/auth/sessions/:id', async ({ user, params }) => {
+        const sessions = await mockDb.get('sessions');
+        if (!sessions.some((session) => session.id === params.id && session.userId === user.id)) {
+            throw new MockHttpError(404, 'Session not found');
+        }
+
+        await mockDb.set('sessions', sessions.filter((session) => session.id !== params.id));
+        return ok();
+    }),
+
+    route('POST', '/auth/2fa/setup', async ({ user }) => {
+        if (user.twoFactorEnabled) {
+            throw new MockHttpError(409, 'Two-factor authentication is already enabled');
+        }
+
+        const secret = randomString(32);
+        await updateUser(user.id, { pendingTwoFactorSecret: secret });
+
+        const label = encodeURIComponent(`Portfolio CMS:${user.email}`);
+        return ok({ secret, otpauthUri: `otpauth://totp/${label}?secret=${secret}&issuer=Portfolio%20CMS` });
+    }),
+
+    route('POST', '/auth/2fa/enable', async (request) => {
+        if (!request.user.pendingTwoFactorSecret) {
+            throw new MockHttpError(400, 'Start two-factor setup first');
+        }
+        await requireTwoFactorCode(request);
+
+        const recoveryCodes = createRecoveryCodes();
+        await updateUser(request.user.id, {
+            twoFactorEnabled: true,
+            twoFactorSecret: request.user.pendingTwoFactorSecret,
+            pendingTwoFactorSecret: null,
+            recoveryCodes,
+        });
+        return ok({ recoveryCodes });
+    }),
+
+    route('POST', '/auth/2fa/disable', async (request) => {
+        await requireTwoFactorCode(request);
+        await updateUser(request.user.id, { twoFactorEnabled: false, twoFactorSecret: null, recoveryCodes: [] });
+        return ok();
+    }),
+
+    route('POST', '/auth/2fa/recovery-codes', async (request) => {
+        await requireTwoFactorCode(request);
+
+        const recoveryCodes = createRecoveryCodes();
+        await updateUser(request.user.id, { recoveryCodes });
+        return ok({ recoveryCodes });
+    }),
+];
@@ -0,0 +1,403 @@
+import type { Skill, SortOrder } from '@/types';
+import { mockDb, type MockProject, type MockTables } from '../db';
+import {
+    conflict,
+    createId,
+    formFiles,
+    formValue,
+    isStale,
+    MockHttpError,
+    ok,
+    requireFields,
+    requireRole,
+    toDataUrl,
+    type AuthenticatedRequest,
+} from '../http';
+import { route, type MockRoute } from '../router';
+import { publishChange } from '../events';
+import { snapshotProject } from '../revisions';
+
+type ContentTable = 'skills' | 'experience' | 'education' | 'certifications' | 'projects';
+type ContentRow<K extends ContentTable> = MockTables[K][number];
+type ContentFields<K extends ContentTable> = Omit<ContentRow<K>, 'id' | 'userId' | 'createdAt' | 'updatedAt'>;
+
+interface CollectionOptions<K extends ContentTable> {
+    table: K;
+    path: string;
+    label: string;
+    searchFields: string[];
+    defaultSort: [string, SortOrder];
+    parse: (request: AuthenticatedRequest, existing?: ContentRow<K>) => Promise<ContentFields<K>>;
+    // Throws when the new values clash with another row, e.g. a duplicate slug.
+    checkUnique?: (fields: ContentFields<K>, others: ContentRow<K>[]) => void;
+    serialize?: (row: ContentRow<K>, skills: Skill[]) => unknown;
+    findRow?: (rows: ContentRow<K>[], key: string) => ContentRow<K> | undefined;
+    // Extra list filters beyond the text search, driven by the query string.
+    filter?: (row: ContentRow<K>, query: Record<string, string>) => boolean;
+    // Runs after a create or update has been stored.
+    afterSave?: (request: AuthenticatedRequest, row: ContentRow<K>, skills: Skill[]) => Promise<void>;
+    afterDelete?: (row: ContentRow<K>) => Promise<void>;
+}
+
+const compareValues = (a: unknown, b: unknown) => {
+    if (a === b) return 0;
+    if (a === null || a === undefined) return 1;
+    if (b === null || b === undefined) return -1;
+    if (typeof a === 'number' && typeof b === 'number') return a - b;
+    return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: 'base' });
+};
+
+const paginate = <T>(rows: T[], query: Record<string, string>) => {
+    if (!query.page && !query.pageSize) {
+        return { items: rows, meta: { page: 1, pageSize: rows.length, total: rows.length, totalPages: 1 } };
+    }
+
+    const pageSize = Math.max(1, Number(query.pageSize) || 10);
+    const totalPages = Math.max(1, Math.ceil(rows.length / pageSize));
+    const page = Math.min(Math.max(1, Number(query.page) || 1), totalPages);
+    return {
+        items: rows.slice((page - 1) * pageSize, page * pageSize),
+        meta: { page, pageSize, total: rows.length, totalPages },
+    };
+};
+
+const expandSkills = (skillIds: string[], skills: Skill[]) =>
+    skillIds.flatMap((id) => {
+        const skill = skills.find((candidate) => candidate.id === id);
+        return skill ? [{ skill }] : [];
+    });
+
+const toNumber = (value: unknown): number | null => {
+    if (value === null || value === undefined || value === '') return null;
+    const number = Number(value);
+    return Number.isNaN(number) ? null : number;
+};
+
+const toStringList = (value: unknown): string[] =>
+    Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+const optionalText = (value: unknown): string | null => (typeof value === 'string' && value.trim() ? value : null);
+
+function collectionRoutes<K extends ContentTable>(options: CollectionOptions<K>): MockRoute[] {
+    const { table, path, label, serialize = (row) => row, findRow = (rows, id) => rows.find((row) => row.id === id) } = options;
+
+    const load = async (request: AuthenticatedRequest) => {
+        const rows = (await mockDb.get(table)) as ContentRow<K>[];
+        return {
+            all: rows,
+            own: rows.filter((row) => row.userId === request.user.workspaceId),
+            skills: await mockDb.get('skills'),
+        };
+    };
+
+    const save = (rows: ContentRow<K>[]) => mockDb.set(table, rows as MockTables[K]);
+
+    const findOwn = (rows: ContentRow<K>[], key: string) => {
+        const row = findRow(rows, key);
+        if (!row) {
+            throw new MockHttpError(404, `${label} not found`);
+        }
+        return row;
+    };
+
+    return [
+        route('GET', path, async (request) => {
+            const { own, skills } = await load(request);
+            const { query } = request;
+            const search = query.q?.trim().toLowerCase();
+            const [sortField, sortOrder] = query.sort
+                ? [query.sort, query.order === 'desc' ? 'desc' : 'asc']
+                : options.defaultSort;
+
+            const rows = own
+                .filter((row) => !options.filter || options.filter(row, query))
+                .filter((row) =>
+                    !search ||
+                    options.searchFields.some((field) =>
+                        String((row as Record<string, unknown>)[field] ?? '').toLowerCase().includes(search)
+                    )
+                )
+                .sort((a, b) => {
+                    const result = compareValues(
+                        (a as Record<string, unknown>)[sortField],
+                        (b as Record<string, unknown>)[sortField]
+                    );
+                    return sortOrder === 'desc' ? -result : result;
+                });
+
+            const { items, meta } = paginate(rows, query);
+            return ok(items.map((row) => serialize(row, skills)), 200, meta);
+        }),
+
+        route('GET', `${path}/:id`, async (request) => {
+            const { own, skills } = await load(request);
+            return ok(serialize(findOwn(own, request.params.id), skills));
+        }),
+
+        route('POST', path, async (request) => {
+            requireRole(request, 'owner', 'editor');
+            const { all, own, skills } = await load(request);
+            const fields = await options.parse(request);
+            options.checkUnique?.(fields, own);
+
+            const now = new Date().toISOString();
+            const row = { ...fields, id: createId(table), userId: request.user.workspaceId, createdAt: now, updatedAt: now } as ContentRow<K>;
+            await save([...all, row]);
+            await options.afterSave?.(request, row, skills);
+            publishChange(request, table, 'created', row);
+            return ok(serialize(row, skills), 201);
+        }),
+
+        route('PUT', `${path}/:id`, async (request) => {
+            requireRole(request, 'owner', 'editor');
+            const { all, own, skills } = await load(request);
+            const existing = findOwn(own, request.params.id);
+            if (isStale(request, existing.updatedAt)) {
+                return conflict(serialize(existing, skills));
+            }
+
+            const fields = await options.parse(request, existing);
+            options.checkUnique?.(fields, own.filter((row) => row.id !== existing.id));
+
+            const updated = { ...existing, ...fields, updatedAt: new Date().toISOString() } as ContentRow<K>;
+            await save(all.map((row) => (row.id === existing.id ? updated : row)));
+            await options.afterSave?.(request, updated, skills);
+            publishChange(request, table, 'updated', updated);
+            return ok(serialize(updated, skills));
+        }),
+
+        route('DELETE', `${path}/:id`, async (request) => {
+            requireRole(request, 'owner', 'editor');
+            const { all, own } = await load(request);
+            const existing = findOwn(own, request.params.id);
+            await save(all.filter((row) => row.id !== existing.id));
+            await options.afterDelete?.(existing);
+            publishChange(request, table, 'deleted', existing);
+            return ok();
+        }),
+    ];
+}
+
+const removeSkillReferences = async (skillId: string) => {
+    const strip = <T extends { skillIds: string[] }>(rows: T[]) =>
+        rows.map((row) => ({ ...row, skillIds: row.skillIds.filter((id) => id !== skillId) }));
+
+    await mockDb.set('experience', strip(await mockDb.get('experience')));
+    await mockDb.set('certifications', strip(await mockDb.get('certifications')));
+    await mockDb.set('projects', strip(await mockDb.get('projects')));
+};
+
+const skillRoutes = collectionRoutes({
+    table: 'skills',
+    path: '/skills',
+    label: 'Skill',
+    searchFields: ['name'],
+    defaultSort: ['name', 'asc'],
+    parse: async (request, existing) => {
+        const name = formValue(request, 'name')?.trim() ?? '';
+        const [icon] = formFiles(request, 'icon');
+        requireFields({ name, icon: icon ?? existing?.icon }, { name: 'Name', icon: 'Icon' });
+        return { name, icon: icon ? await toDataUrl(icon) : existing!.icon };
+    },
+    checkUnique: (fields, others) => {
+        if (others.some((skill) => skill.name.toLowerCase() === fields.name.toLowerCase())) {
+            throw new MockHttpError(409, 'Skill already exists', { name: 'A skill with this name already exists' });
+        }
+    },
+    afterDelete: (skill) => removeSkillReferences(skill.id),
+});
+
+const experienceRoutes = collectionRoutes({
+    table: 'experience',
+    path: '/experience',
+    label: 'Experience',
+    searchFields: ['companyName', 'location', 'description'],
+    defaultSort: ['startYear', 'desc'],
+    parse: async ({ body }) => {
+        requireFields(body, { startYear: 'Start year', companyName: 'Company name', location: 'Location' });
+        return {
+            startYear: toNumber(body.startYear)!,
+            endYear: toNumber(body.endYear),
+            companyName: String(body.companyName),
+            description: optionalText(body.description),
+            location: String(body.location),
+            skillIds: toStringList(body.skillIds),
+        };
+    },
+    serialize: ({ skillIds, ...row }, skills) => ({ ...row, experienceSkills: expandSkills(skillIds, skills) }),
+});
+
+const educationRoutes = collectionRoutes({
+    table: 'education',
+    path: '/education',
+    label: 'Education',
+    searchFields: ['institutionName', 'description'],
+    defaultSort: ['year', 'desc'],
+    parse: async ({ body }) => {
+        requireFields(body, { year: 'Year', institutionName: 'Institution name' });
+        return {
+            year: String(body.year),
+            institutionName: String(body.institutionName),
+            description: optionalText(body.description),
+        };
+    },
+});
+
+const certificationRoutes = collectionRoutes({
+    table: 'certifications',
+    path: '/certifications',
+    label: 'Certification',
+    searchFields: ['name', 'issuingOrganization', 'description'],
+    defaultSort: ['year', 'desc'],
+    parse: async ({ body }) => {
+        requireFields(body, { name: 'Name', issuingOrganization: 'Issuing organization', year: 'Year' });
+        return {
+            name: String(body.name),
+            issuingOrganization: String(body.issuingOrganization),
+            year: toNumber(body.year)!,
+            description: optionalText(body.description),
+            certificateLink: optionalText(body.certificateLink),
+            skillIds: toStringList(body.skillIds),
+        };
+    },
+    serialize: ({ skillIds, ...row }, skills) => ({ ...row, certificationSkills: expandSkills(skillIds, skills) }),
+});
+
+const checkProjectSlug = (slug: string, others: MockProject[]) => {
+    if (others.some((project) => project.slug === slug)) {
+        throw new MockHttpError(409, 'Slug is already in use', { slug: 'Another project already uses this slug' });
+    }
+};
+
+const serializeProject = ({ skillIds, ...row }: MockProject, skills: Skill[]) => ({
+    ...row,
+    projectSkills: expandSkills(skillIds, skills),
+});
+
+const findOwnProject = (request: AuthenticatedRequest, projects: MockProject[]) => {
+    const project = projects.find(
+        (candidate) => candidate.id === request.params.id && candidate.userId === request.user.workspaceId
+    );
+    if (!project) {
+        throw new MockHttpError(404, 'Project not found');
+    }
+    return project;
+};
+
+const recordRevision = async (
+    request: AuthenticatedRequest,
+    project: MockProject,
+    skills: Skill[],
+    restoredFrom: string | null = null
+) => {
+    const revisions = await mockDb.get('projectRevisions');
+    await mockDb.set('projectRevisions', [
+        ...revisions,
+        {
+            ...snapshotProject(project, skills, { id: request.user.id, name: request.user.name }),
+            id: createId('revision'),
+            restoredFrom,
+            createdAt: project.updatedAt,
+        },
+    ]);
+};
+
+const removeProjectRevisions = async (project: MockProject) => {
+    const revisions = await mockDb.get('projectRevisions');
+    await mockDb.set('projectRevisions', revisions.filter((revision) => revision.projectId !== project.id));
+};
+
+const projectRoutes = collectionRoutes({
+    table: 'projects',
+    path: '/projects',
+    label: 'Project',
+    searchFields: ['title', 'description', 'slug'],
+    defaultSort: ['createdAt', 'desc'],
+    findRow: (rows, key) => rows.find((row) => row.id === key || row.slug === key),
+    filter: (project, { publishedFrom, publishedTo }) =>
+        (!publishedFrom || (project.publishedAt !== null && project.publishedAt >= publishedFrom)) &&
+        (!publishedTo || (project.publishedAt !== null && project.publishedAt <= publishedTo)),
+    parse: async (request, existing) => {
+        const title = formValue(request, 'title')?.trim() ?? '';
+        const slug = formValue(request, 'slug')?.trim() ?? '';
+        const description = formValue(request, 'description') ?? '';
+        requireFields({ title, slug, description }, { title: 'Title', slug: 'Slug', description: 'Description' });
+
+        const published = formValue(request, 'published') === 'true';
+        const [cover] = formFiles(request, 'coverImage');
+        const keptImages = existing ? toStringList(JSON.parse(formValue(request, 'existingContentImages') ?? '[]')) : [];
+        const uploadedImages = await Promise.all(formFiles(request, 'contentImages').map(toDataUrl));
+
+        return {
+            title,
+            slug,
+            description,
+            content: formValue(request, 'content') ?? '',
+            coverImage: cover ? await toDataUrl(cover) : existing?.coverImage ?? null,
+            contentImages: [...keptImages, ...uploadedImages],
+            publishedAt: published
+                ? formValue(request, 'publishedAt') ?? existing?.publishedAt ?? new Date().toISOString()
+                : null,
+            highlighted: formValue(request, 'highlighted') === 'true',
+            skillIds: request.form?.getAll('skillIds[]').filter((id): id is string => typeof id === 'string') ?? [],
+        };
+    },
+    checkUnique: (fields, others) => checkProjectSlug(fields.slug, others),
+    serialize: serializeProject,
+    afterSave: (request, project, skills) => recordRevision(request, project, skills),
+    afterDelete: removeProjectRevisions,
+});
+
+const projectRevisionRoutes = [
+    route('GET', '/projects/:id/revisions', async (request) => {
+        const project = findOwnProject(request, await mockDb.get('projects'));
+        const revisions = await mockDb.get('projectRevisions');
+        // Revisions are appended in save order.
+        return ok(revisions.filter((revision) => revision.projectId === project.id).reverse());
+    }),
+
+    route('POST', '/projects/:id/revisions/:revisionId/restore', async (request) => {
+        requireRole(request, 'owner', 'editor');
+        const projects = await mockDb.get('projects');
+        const skills = await mockDb.get('skills');
+        const existing = findOwnProject(request, projects);
+        const revision = (await mockDb.get('projectRevisions')).find(
+            (candidate) => candidate.id === request.params.revisionId && candidate.projectId === existing.id
+        );
+        if (!revision) {
+            throw new MockHttpError(404, 'Revision not found');
+        }
+        checkProjectSlug(
+            revision.slug,
+            projects.filter((project) => project.userId === existing.userId && project.id !== existing.id)
+        );
+
+        const restored: MockProject = {
+            ...existing,
+            title: revision.title,
+            slug: revision.slug,
+            description: revision.description,
+            content: revision.content,
+            coverImage: revision.coverImage,
+            contentImages: revision.contentImages,
+            publishedAt: revision.publishedAt,
+            highlighted: revision.highlighted,
+            // Skills deleted since the revision was taken can't be brought back.
+            skillIds: revision.skills.map(({ id }) => id).filter((id) => skills.some((skill) => skill.id === id)),
+            updatedAt: new Date().toISOString(),
+        };
+        await mockDb.set('projects', projects.map((project) => (project.id === existing.id ? restored : project)));
+        await recordRevision(request, restored, skills, revision.id);
+        publishChange(request, 'projects', 'updated', restored);
+        return ok(serializeProject(restored, skills));
+    }),
+];
+
+export const contentRoutes = [
+    ...skillRoutes,
+    ...experienceRoutes,
+    ...educationRoutes,
+    ...certificationRoutes,
+    ...projectRoutes,
+    ...projectRevisionRoutes,
+];
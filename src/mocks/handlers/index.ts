@@ -0,0 +1,6 @@
+import { authRoutes } from './auth';
+import { contentRoutes } from './content';
+import { teamRoutes } from './team';
+import { userRoutes } from './user';
+
+export const routes = [...authRoutes, ...teamRoutes, ...contentRoutes, ...userRoutes];
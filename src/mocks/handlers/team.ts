@@ -0,0 +1,122 @@
+import type { TeamMember, UserRole } from '@/types';
+import { mockDb, type MockInvitation, type MockUser } from '../db';
+import { createId, MockHttpError, ok, requireFields, requireRole } from '../http';
+import { route } from '../router';
+
+const ASSIGNABLE_ROLES: UserRole[] = ['editor', 'viewer'];
+
+const fromUser = (user: MockUser): TeamMember => ({
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    status: 'active',
+    createdAt: user.createdAt,
+});
+
+const fromInvitation = (invitation: MockInvitation): TeamMember => ({
+    id: invitation.id,
+    email: invitation.email,
+    name: null,
+    role: invitation.role,
+    status: 'pending',
+    createdAt: invitation.createdAt,
+});
+
+const parseRole = (value: unknown): Exclude<UserRole, 'owner'> => {
+    if (!ASSIGNABLE_ROLES.includes(value as UserRole)) {
+        throw new MockHttpError(422, 'Validation failed', { role: 'Role must be editor or viewer' });
+    }
+    return value as Exclude<UserRole, 'owner'>;
+};
+
+export const teamRoutes = [
+    route('GET', '/team', async ({ user }) => {
+        const [users, invitations] = await Promise.all([mockDb.get('users'), mockDb.get('invitations')]);
+        return ok([
+            ...users.filter((member) => member.workspaceId === user.workspaceId).map(fromUser),
+            ...invitations.filter((invitation) => invitation.workspaceId === user.workspaceId).map(fromInvitation),
+        ]);
+    }),
+
+    route('POST', '/team/invitations', async (request) => {
+        requireRole(request, 'owner');
+        const email = String(request.body.email ?? '').trim();
+        requireFields({ email }, { email: 'Email' });
+        const role = parseRole(request.body.role);
+
+        const [users, invitations] = await Promise.all([mockDb.get('users'), mockDb.get('invitations')]);
+        const workspaceId = request.user.workspaceId;
+        const taken = [
+            ...users.filter((member) => member.workspaceId === workspaceId).map((member) => member.email),
+            ...invitations.filter((invitation) => invitation.workspaceId === workspaceId).map((invitation) => invitation.email),
+        ].some((existing) => existing.toLowerCase() === email.toLowerCase());
+        if (taken) {
+            throw new MockHttpError(409, 'This person is already on the team', { email: 'Already invited or a member' });
+        }
+
+        const invitation: MockInvitation = { id: createId('invite'), workspaceId, email, role, createdAt: new Date().toISOString() };
+        await mockDb.set('invitations', [...invitations, invitation]);
+        return ok(fromInvitation(invitation), 201);
+    }),
+
+    route('PUT', '/team/:id', async (request) => {
+        requireRole(request, 'owner');
+        const role = parseRole(request.body.role);
+        const { id } = request.params;
+        const workspaceId = request.user.workspaceId;
+
+        const users = await mockDb.get('users');
+        const member = users.find((candidate) => candidate.id === id && candidate.workspaceId === workspaceId);
+        if (member) {
+            if (member.role === 'owner') {
+                throw new MockHttpError(400, "The owner's role cannot be changed");
+            }
+            const updated = { ...member, role };
+            await mockDb.set('users', users.map((candidate) => (candidate.id === id ? updated : candidate)));
+            return ok(fromUser(updated));
+        }
+
+        const invitations = await mockDb.get('invitations');
+        const invitation = invitations.find((candidate) => candidate.id === id && candidate.workspaceId === workspaceId);
+        if (!invitation) {
+            throw new MockHttpError(404, 'Team member not found');
+        }
+
+        const updated = { ...invitation, role };
+        await mockDb.set('invitations', invitations.map((candidate) => (candidate.id === id ? updated : candidate)));
+        return ok(fromInvitation(updated));
+    }),
+
+    route('DELETE', '/team/:id', async (request) => {
+        requireRole(request, 'owner');
+        const { id } = request.params;
+        const workspaceId = request.user.workspaceId;
+
+        const [users, invitations, sessions] = await Promise.all([
+            mockDb.get('users'),
+            mockDb.get('invitations'),
+            mockDb.get('sessions'),
+        ]);
+        const member = users.find((candidate) => candidate.id === id && candidate.workspaceId === workspaceId);
+        if (member?.role === 'owner') {
+            throw new MockHttpError(400, 'The owner cannot be removed');
+        }
+
+        if (member) {
+            // Removed members keep their login but get a workspace of their own.
+            await mockDb.set('users', users.map((candidate) =>
+                candidate.id === id ? { ...candidate, role: 'owner', workspaceId: candidate.id } : candidate
+            ));
+            await mockDb.set('sessions', sessions.filter((session) => session.userId !== id));
+            return ok();
+        }
+
+        if (!invitations.some((candidate) => candidate.id === id && candidate.workspaceId === workspaceId)) {
+            throw new MockHttpError(404, 'Team member not found');
+        }
+
+        await mockDb.set('invitations', invitations.filter((candidate) => candidate.id !== id));
+        return ok();
+    }),
+];
@@ -0,0 +1,78 @@
+import type { UserDetails } from '@/types';
+import { mockDb } from '../db';
+import {
+    conflict,
+    createId,
+    formFiles,
+    formValue,
+    isStale,
+    MockHttpError,
+    ok,
+    requireFields,
+    requireRole,
+    toDataUrl,
+    type AuthenticatedRequest,
+} from '../http';
+import { route } from '../router';
+import { publishChange } from '../events';
+
+const parseDetails = async (request: AuthenticatedRequest, existing?: UserDetails) => {
+    const name = formValue(request, 'name')?.trim() ?? '';
+    const role = formValue(request, 'role')?.trim() ?? '';
+    requireFields({ name, role }, { name: 'Name', role: 'Role' });
+
+    const [photo] = formFiles(request, 'profilePhoto');
+    const socialMedias = request.form?.getAll('socialMedias').filter((link): link is string => typeof link === 'string') ?? [];
+
+    return {
+        name,
+        role,
+        description: formValue(request, 'description') || null,
+        socialMedias,
+        profilePhoto: photo ? await toDataUrl(photo) : existing?.profilePhoto ?? null,
+    };
+};
+
+export const userRoutes = [
+    route('GET', '/user', async ({ user }) => {
+        const details = (await mockDb.get('userDetails')).find((row) => row.userId === user.workspaceId);
+        return ok(details ?? null);
+    }),
+
+    route('POST', '/user', async (request) => {
+        requireRole(request, 'owner', 'editor');
+        const rows = await mockDb.get('userDetails');
+        if (rows.some((row) => row.userId === request.user.workspaceId)) {
+            throw new MockHttpError(409, 'User details already exist');
+        }
+
+        const now = new Date().toISOString();
+        const details: UserDetails = {
+            ...(await parseDetails(request)),
+            id: createId('details'),
+            userId: request.user.workspaceId,
+            createdAt: now,
+            updatedAt: now,
+        };
+        await mockDb.set('userDetails', [...rows, details]);
+        publishChange(request, 'userDetails', 'created', details);
+        return ok(details, 201);
+    }),
+
+    route('PUT', '/user', async (request) => {
+        requireRole(request, 'owner', 'editor');
+        const rows = await mockDb.get('userDetails');
+        const existing = rows.find((row) => row.userId === request.user.workspaceId);
+        if (!existing) {
+            throw new MockHttpError(404, 'User details not found');
+        }
+        if (isStale(request, existing.updatedAt)) {
+            return conflict(existing);
+        }
+
+        const updated = { ...existing, ...(await parseDetails(request, existing)), updatedAt: new Date().toISOString() };
+        await mockDb.set('userDetails', rows.map((row) => (row.id === existing.id ? updated : row)));
+        publishChange(request, 'userDetails', 'updated', updated);
+        return ok(updated);
+    }),
+];
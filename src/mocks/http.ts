@@ -0,0 +1,145 @@
+import type { PaginationMeta } from '@/types';
+import { EDIT_CONFLICT_CODE } from '@/lib/editConflict';
+import { mockDb, type MockUser } from './db';
+
+export interface MockRequest {
+    method: string;
+    path: string;
+    params: Record<string, string>;
+    query: Record<string, string>;
+    body: Record<string, unknown>;
+    form: FormData | null;
+    authorization: string | null;
+    clientId: string | null;
+}
+
+export interface AuthenticatedRequest extends MockRequest {
+    user: MockUser;
+    sessionId: string;
+}
+
+export interface MockResponse {
+    status: number;
+    body: unknown;
+}
+
+export class MockHttpError extends Error {
+    readonly status: number;
+    readonly errors?: Record<string, string>;
+
+    constructor(status: number, message: string, errors?: Record<string, string>) {
+        super(message);
+        this.name = 'MockHttpError';
+        this.status = status;
+        this.errors = errors;
+    }
+}
+
+export const ok = (data?: unknown, status = 200, meta?: PaginationMeta): MockResponse => ({
+    status,
+    body: { success: true, data, meta },
+});
+
+export const fail = (status: number, error: string, errors?: Record<string, string>): MockResponse => ({
+    status,
+    body: { success: false, error, errors },
+});
+
+// Sent when an update was based on an older `updatedAt` than the stored row.
+export const conflict = (current: unknown): MockResponse => ({
+    status: 409,
+    body: {
+        success: false,
+        error: 'Someone else changed this item after you started editing it.',
+        code: EDIT_CONFLICT_CODE,
+        data: current,
+    },
+});
+
+export const createId = (prefix: string) => `${prefix}-${crypto.randomUUID()}`;
+
+const ACCESS_TOKEN_TTL_S = 15 * 60;
+
+const encodeSegment = (value: object) =>
+    btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const decodeSegment = (segment: string): Record<string, unknown> | null => {
+    try {
+        return JSON.parse(atob(segment.replace(/-/g, '+').replace(/_/g, '/')));
+    } catch {
+        return null;
+    }
+};
+
+// Unsigned JWT-shaped tokens: enough for the client to read `exp`, never meant to be secure.
+export const signToken = (payload: Record<string, unknown>, ttlSeconds = ACCESS_TOKEN_TTL_S) =>
+    [
+        encodeSegment({ alg: 'none', typ: 'JWT' }),
+        encodeSegment({ ...payload, exp: Math.floor(Date.now() / 1000) + ttlSeconds }),
+        'mock',
+    ].join('.');
+
+export const verifyToken = (token: string, purpose: string): Record<string, unknown> | null => {
+    const payload = decodeSegment(token.split('.')[1] ?? '');
+    if (!payload || payload.purpose !== purpose) return null;
+    if (typeof payload.exp !== 'number' || payload.exp * 1000 < Date.now()) return null;
+    return payload;
+};
+
+export async function authenticate(request: MockRequest): Promise<AuthenticatedRequest> {
+    const token = request.authorization?.replace(/^Bearer /, '');
+    const payload = token ? verifyToken(token, 'access') : null;
+    if (!payload) {
+        throw new MockHttpError(401, 'Unauthorized');
+    }
+
+    const [users, sessions] = await Promise.all([mockDb.get('users'), mockDb.get('sessions')]);
+    const user = users.find((candidate) => candidate.id === payload.sub);
+    const session = sessions.find((candidate) => candidate.id === payload.sid);
+    if (!user || !session) {
+        throw new MockHttpError(401, 'Session has been revoked');
+    }
+
+    return { ...request, user, sessionId: session.id };
+}
+
+export function requireRole(request: AuthenticatedRequest, ...roles: MockUser['role'][]) {
+    if (!roles.includes(request.user.role)) {
+        throw new MockHttpError(403, 'You do not have permission to perform this action');
+    }
+}
+
+export function requireFields(values: Record<string, unknown>, labels: Record<string, string>) {
+    const errors = Object.fromEntries(
+        Object.entries(labels)
+            .filter(([field]) => values[field] === undefined || values[field] === null || values[field] === '')
+            .map(([field, label]) => [field, `${label} is required`])
+    );
+
+    if (Object.keys(errors).length > 0) {
+        throw new MockHttpError(422, 'Validation failed', errors);
+    }
+}
+
+// Multipart bodies are flattened into plain values; files are handled separately by the caller.
+export const formValue = (request: MockRequest, field: string): string | undefined => {
+    const value = request.form ? request.form.get(field) : request.body[field];
+    return typeof value === 'string' ? value : undefined;
+};
+
+export const isStale = (request: MockRequest, updatedAt: string) => {
+    const expected = formValue(request, 'expectedUpdatedAt');
+    return expected !== undefined && expected !== updatedAt;
+};
+
+export const formFiles = (request: MockRequest, field: string): File[] =>
+    (request.form?.getAll(field) ?? []).filter((value): value is File => value instanceof File);
+
+// Uploaded files are persisted as data URLs so they survive reloads without a file server.
+export const toDataUrl = (file: Blob): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(file);
+    });
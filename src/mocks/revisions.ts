@@ -0,0 +1,28 @@
+import type { Skill } from '@/types';
+import type { MockProject, MockProjectRevision } from './db';
+
+type RevisionSnapshot = Omit<MockProjectRevision, 'id' | 'restoredFrom' | 'createdAt'>;
+
+// Copies the fields a project revision tracks. Skill names are resolved now, so the history
+// keeps reading correctly after a skill is renamed or deleted.
+export const snapshotProject = (
+    { id, skillIds, ...project }: MockProject,
+    skills: Skill[],
+    author: MockProjectRevision['author']
+): RevisionSnapshot => ({
+    projectId: id,
+    userId: project.userId,
+    title: project.title,
+    slug: project.slug,
+    description: project.description,
+    content: project.content,
+    coverImage: project.coverImage,
+    contentImages: project.contentImages,
+    publishedAt: project.publishedAt,
+    highlighted: project.highlighted ?? false,
+    skills: skillIds.flatMap((skillId) => {
+        const skill = skills.find((candidate) => candidate.id === skillId);
+        return skill ? [{ id: skill.id, name: skill.name }] : [];
+    }),
+    author,
+});
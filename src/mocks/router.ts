@@ -0,0 +1,57 @@
+import { authenticate, fail, MockHttpError, type AuthenticatedRequest, type MockRequest, type MockResponse } from './http';
+
+export interface MockRoute {
+    method: string;
+    pattern: RegExp;
+    keys: string[];
+    handle: (request: MockRequest) => Promise<MockResponse>;
+}
+
+const compile = (path: string) => {
+    const keys: string[] = [];
+    const source = path.replace(/:(\w+)/g, (_, key: string) => {
+        keys.push(key);
+        return '([^/]+)';
+    });
+    return { keys, pattern: new RegExp(`^${source}/?$`) };
+};
+
+export const publicRoute = (
+    method: string,
+    path: string,
+    handler: (request: MockRequest) => MockResponse | Promise<MockResponse>
+): MockRoute => ({
+    method,
+    ...compile(path),
+    handle: async (request) => handler(request),
+});
+
+export const route = (
+    method: string,
+    path: string,
+    handler: (request: AuthenticatedRequest) => MockResponse | Promise<MockResponse>
+): MockRoute => publicRoute(method, path, async (request) => handler(await authenticate(request)));
+
+export async function dispatch(routes: MockRoute[], request: Omit<MockRequest, 'params'>): Promise<MockResponse> {
+    for (const candidate of routes) {
+        if (candidate.method !== request.method) continue;
+
+        const match = candidate.pattern.exec(request.path);
+        if (!match) continue;
+
+        const params = Object.fromEntries(
+            candidate.keys.map((key, index) => [key, decodeURIComponent(match[index + 1])])
+        );
+
+        try {
+            return await candidate.handle({ ...request, params });
+        } catch (error) {
+            if (error instanceof MockHttpError) {
+                return fail(error.status, error.message, error.errors);
+            }
+            throw error;
+        }
+    }
+
+    return fail(404, `No mock route for ${request.method} ${request.path}`);
+}
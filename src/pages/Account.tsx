@@ -0,0 +1,217 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import toast from 'react-hot-toast';
+import { Save, Loader2, KeyRound } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import TwoFactorSettings from '@/components/account/TwoFactorSettings';
+import SessionsPanel from '@/components/account/SessionsPanel';
+import { accountService } from '@/services/account';
+import { useAbortController } from '@/hooks/useAbortController';
+import { useAuthStore } from '@/store/authStore';
+import { passwordSchema, usernameSchema } from '@/lib/validation';
+import { applyServerErrors } from '@/lib/formErrors';
+import { isAbortError } from '@/lib/apiError';
+
+const profileSchema = z.object({
+    name: z.string().min(1, 'Name is required'),
+    email: z.string().email('Invalid email address'),
+    username: usernameSchema,
+});
+
+const changePasswordSchema = z
+    .object({
+        currentPassword: z.string().min(1, 'Current password is required'),
+        newPassword: passwordSchema,
+        confirmPassword: z.string().min(1, 'Please confirm your new password'),
+    })
+    .refine((data) => data.newPassword === data.confirmPassword, {
+        message: 'Passwords do not match',
+        path: ['confirmPassword'],
+    })
+    .refine((data) => data.newPassword !== data.currentPassword, {
+        message: 'New password must be different from the current one',
+        path: ['newPassword'],
+    });
+
+type ProfileFormData = z.infer<typeof profileSchema>;
+type ChangePasswordFormData = z.infer<typeof changePasswordSchema>;
+
+export default function Account() {
+    const user = useAuthStore((state) => state.user);
+    const setUser = useAuthStore((state) => state.setUser);
+    const createAbortController = useAbortController();
+    const [isSavingProfile, setIsSavingProfile] = useState(false);
+    const [isChangingPassword, setIsChangingPassword] = useState(false);
+
+    const profileForm = useForm<ProfileFormData>({
+        resolver: zodResolver(profileSchema),
+        defaultValues: {
+            name: user?.name ?? '',
+            email: user?.email ?? '',
+            username: user?.username ?? '',
+        },
+    });
+
+    const passwordForm = useForm<ChangePasswordFormData>({
+        resolver: zodResolver(changePasswordSchema),
+    });
+
+    const onSubmitProfile = async (data: ProfileFormData) => {
+        setIsSavingProfile(true);
+        try {
+            const updatedUser = await accountService.updateProfile(data, createAbortController().signal);
+            setUser(updatedUser);
+            profileForm.reset(data);
+            toast.success('Profile updated successfully');
+        } catch (error) {
+            if (isAbortError(error)) return;
+            if (!applyServerErrors(error, profileForm.setError, Object.keys(profileSchema.shape))) {
+                toast.error(error instanceof Error ? error.message : 'Failed to update profile');
+            }
+        } finally {
+            setIsSavingProfile(false);
+        }
+    };
+
+    const onSubmitPassword = async (data: ChangePasswordFormData) => {
+        setIsChangingPassword(true);
+        try {
+            await accountService.changePassword(
+                { currentPassword: data.currentPassword, newPassword: data.newPassword },
+                createAbortController().signal
+            );
+            passwordForm.reset({ currentPassword: '', newPassword: '', confirmPassword: '' });
+            toast.success('Password changed successfully');
+        } catch (error) {
+            if (isAbortError(error)) return;
+            if (!applyServerErrors(error, passwordForm.setError, Object.keys(changePasswordSchema.shape))) {
+                toast.error(error instanceof Error ? error.message : 'Failed to change password');
+            }
+        } finally {
+            setIsChangingPassword(false);
+        }
+    };
+
+    return (
+        <div>
+            <div className="mb-8">
+                <h1 className="text-3xl font-bold text-white">Account</h1>
+                <p className="text-gray-400 mt-2">Manage your sign-in details and security settings</p>
+            </div>
+
+            <div className="max-w-3xl space-y-6">
+                <div className="bg-gray-900 border border-gray-800 rounded-xl p-8">
+                    <h2 className="text-xl font-semibold text-white mb-6">Profile</h2>
+                    <form onSubmit={profileForm.handleSubmit(onSubmitProfile)} className="space-y-6">
+                        <Input
+                            label="Name"
+                            placeholder="e.g., John Doe"
+                            disabled={isSavingProfile}
+                            error={profileForm.formState.errors.name?.message}
+                            {...profileForm.register('name')}
+                        />
+
+                        <Input
+                            label="Email"
+                            type="email"
+                            placeholder="you@example.com"
+                            disabled={isSavingProfile}
+                            error={profileForm.formState.errors.email?.message}
+                            {...profileForm.register('email')}
+                        />
+
+                        <Input
+                            label="Username"
+                            placeholder="Username"
+                            disabled={isSavingProfile}
+                            error={profileForm.formState.errors.username?.message}
+                            {...profileForm.register('username')}
+                        />
+
+                        <div className="pt-4 border-t border-gray-800">
+                            <Button
+                                type="submit"
+                                disabled={isSavingProfile || !profileForm.formState.isDirty}
+                                className="w-full sm:w-auto"
+                            >
+                                {isSavingProfile ? (
+                                    <>
+                                        <Loader2 className="w-4 h-4 animate-spin" />
+                                        Saving...
+                                    </>
+                                ) : (
+                                    <>
+                                        <Save className="w-4 h-4" />
+                                        Save Profile
+                                    </>
+                                )}
+                            </Button>
+                        </div>
+                    </form>
+                </div>
+
+                <div className="bg-gray-900 border border-gray-800 rounded-xl p-8">
+                    <h2 className="text-xl font-semibold text-white mb-6">Change Password</h2>
+                    <form onSubmit={passwordForm.handleSubmit(onSubmitPassword)} className="space-y-6">
+                        <Input
+                            label="Current Password"
+                            type="password"
+                            placeholder="••••••••"
+                            autoComplete="current-password"
+                            disabled={isChangingPassword}
+                            error={passwordForm.formState.errors.currentPassword?.message}
+                            {...passwordForm.register('currentPassword')}
+                        />
+
+                        <Input
+                            label="New Password"
+                            type="password"
+                            placeholder="••••••••"
+                            autoComplete="new-password"
+                            disabled={isChangingPassword}
+                            error={passwordForm.formState.errors.newPassword?.message}
+                            {...passwordForm.register('newPassword')}
+                        />
+
+                        <Input
+                            label="Confirm New Password"
+                            type="password"
+                            placeholder="••••••••"
+                            autoComplete="new-password"
+                            disabled={isChangingPassword}
+                            error={passwordForm.formState.errors.confirmPassword?.message}
+                            {...passwordForm.register('confirmPassword')}
+                        />
+
+                        <div className="pt-4 border-t border-gray-800">
+                            <Button
+                                type="submit"
+                                disabled={isChangingPassword}
+                                className="w-full sm:w-auto"
+                            >
+                                {isChangingPassword ? (
+                                    <>
+                                        <Loader2 className="w-4 h-4 animate-spin" />
+                                        Updating...
+                                    </>
+                                ) : (
+                                    <>
+                                        <KeyRound className="w-4 h-4" />
+                                        Change Password
+                                    </>
+                                )}
+                            </Button>
+                        </div>
+                    </form>
+                </div>
+
+                <TwoFactorSettings />
+
+                <SessionsPanel />
+            </div>
+        </div>
+    );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useCallback, useState } from 'react';
 import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -8,10 +8,24 @@ import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import Modal from '@/components/ui/Modal';
 import ConfirmDialog from '@/components/ui/ConfirmDialog';
+import EditConflict, { type ConflictField } from '@/components/ui/EditConflict';
+import RemoteChangeBadge from '@/components/ui/RemoteChangeBadge';
+import Pagination from '@/components/ui/Pagination';
+import SortSelect from '@/components/ui/SortSelect';
+import { usePermission } from '@/hooks/usePermission';
+import { useAbortController } from '@/hooks/useAbortController';
 import CertificationItem from '@/components/items/CertificationItem';
 import { certificationsService } from '@/services/certifications';
 import { skillsService } from '@/services/skills';
-import type { Certification, Skill } from '@/types';
+import { useQuery } from '@/hooks/useQuery';
+import { useListParams } from '@/hooks/useListParams';
+import { createTempId, isTempId, listKey, queryCache, queryKeys } from '@/lib/queryCache';
+import { updateItems } from '@/lib/pagination';
+import type { Certification, Paginated } from '@/types';
+import { applyServerErrors } from '@/lib/formErrors';
+import { OfflineQueuedError } from '@/lib/outbox';
+import { EditConflictError, type EditConflictState } from '@/lib/editConflict';
+import { isAbortError } from '@/lib/apiError';
 
 const certificationSchema = z.object({
     name: z.string().min(1, 'Name is required'),
@@ -24,14 +38,52 @@ const certificationSchema = z.object({
 
 type CertificationFormData = z.infer<typeof certificationSchema>;
 
+const sortOptions = [
+    { value: 'year:desc', label: 'Newest first' },
+    { value: 'year:asc', label: 'Oldest first' },
+    { value: 'name:asc', label: 'Name (A-Z)' },
+];
+
+const toFormValues = (cert: Certification): CertificationFormData => ({
+    name: cert.name,
+    issuingOrganization: cert.issuingOrganization,
+    year: cert.year,
+    description: cert.description || '',
+    certificateLink: cert.certificateLink || '',
+    skillIds: cert.certificationSkills?.map((cs) => cs.skill.id) || [],
+});
+
 export default function CertificationsPage() {
-    const [certifications, setCertifications] = useState<Certification[]>([]);
-    const [skills, setSkills] = useState<Skill[]>([]);
-    const [isLoading, setIsLoading] = useState(true);
+    const canEdit = usePermission('content:write');
+    const createAbortController = useAbortController();
+    const { params, searchInput, setSearchInput, sortValue, setSort, setPage } = useListParams({
+        defaultSort: 'year:desc',
+    });
+    const certificationsKey = listKey(queryKeys.certifications, params);
+    const fetchCertifications = useCallback(
+        (signal?: AbortSignal) => certificationsService.list(params, signal),
+        [params]
+    );
+    const { data: certificationsPage, isLoading, isFetching } = useQuery(certificationsKey, fetchCertifications, {
+        keepPreviousData: true,
+        errorMessage: 'Failed to load certifications',
+    });
+    const certifications = certificationsPage?.items ?? [];
+    const { data: skills = [] } = useQuery(queryKeys.skills, skillsService.getAll);
+    const formatSkills = (skillIds?: string[]) =>
+        skills.filter((skill) => skillIds?.includes(skill.id)).map((skill) => skill.name).join(', ') || '—';
+    const conflictFields: ConflictField<CertificationFormData>[] = [
+        { name: 'name', label: 'Name' },
+        { name: 'issuingOrganization', label: 'Issuing Organization' },
+        { name: 'year', label: 'Year' },
+        { name: 'description', label: 'Description' },
+        { name: 'certificateLink', label: 'Certificate Link' },
+        { name: 'skillIds', label: 'Skills', format: (value) => formatSkills(value as string[] | undefined) },
+    ];
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [editingCertification, setEditingCertification] = useState<Certification | null>(null);
+    const [conflict, setConflict] = useState<EditConflictState<Certification, CertificationFormData> | null>(null);
     const [isSubmitting, setIsSubmitting] = useState(false);
-    const [searchQuery, setSearchQuery] = useState('');
     const [confirmDialog, setConfirmDialog] = useState<{ open: boolean; certificationId: string | null }>({ open: false, certificationId: null });
 
     const {
@@ -41,6 +93,7 @@ export default function CertificationsPage() {
         control,
         formState: { errors },
         setValue,
+        setError,
     } = useForm<CertificationFormData>({
         resolver: zodResolver(certificationSchema),
         defaultValues: {
@@ -49,25 +102,6 @@ export default function CertificationsPage() {
         },
     });
 
-    useEffect(() => {
-        loadData();
-    }, []);
-
-    const loadData = async () => {
-        try {
-            const [certificationsData, skillsData] = await Promise.all([
-                certificationsService.getAll(),
-                skillsService.getAll(),
-            ]);
-            setCertifications(certificationsData);
-            setSkills(skillsData);
-        } catch (error) {
-            toast.error('Failed to load data');
-        } finally {
-            setIsLoading(false);
-        }
-    };
-
     const handleOpenModal = (cert?: Certification) => {
         if (cert) {
             setEditingCertification(cert);
@@ -95,33 +129,97 @@ export default function CertificationsPage() {
         setIsModalOpen(false);
         setEditingCertification(null);
         reset();
+        setConflict(null);
     };
 
-    const onSubmit = async (data: CertificationFormData) => {
+    const saveCertification = async (data: CertificationFormData, target: Certification | null) => {
+        const payload = {
+            ...data,
+            certificateLink: data.certificateLink || undefined,
+        };
+
+        const now = new Date().toISOString();
+        const tempId = createTempId();
+        const fields = {
+            name: data.name,
+            issuingOrganization: data.issuingOrganization,
+            year: data.year,
+            description: data.description || null,
+            certificateLink: data.certificateLink || null,
+            certificationSkills: skills
+                .filter((skill) => data.skillIds?.includes(skill.id))
+                .map((skill) => ({ skill })),
+        };
+        const rollback = queryCache.optimistic<Paginated<Certification>>(certificationsKey, (previous) =>
+            updateItems(previous, (items) =>
+                target
+                    ? items.map((cert) => (cert.id === target.id ? { ...cert, ...fields } : cert))
+                    : [{ id: tempId, userId: '', createdAt: now, updatedAt: now, ...fields }, ...items]
+            )
+        );
+
+        const { signal } = createAbortController();
         setIsSubmitting(true);
         try {
-            const payload = {
-                ...data,
-                certificateLink: data.certificateLink || undefined,
-            };
-
-            if (editingCertification) {
-                await certificationsService.update(editingCertification.id, payload);
+            if (target) {
+                const updated = await certificationsService.update(target.id, payload, target.updatedAt, signal);
+                queryCache.setData<Paginated<Certification>>(certificationsKey, (previous) =>
+                    updateItems(previous, (items) => items.map((cert) => (cert.id === updated.id ? updated : cert)))
+                );
                 toast.success('Certification updated successfully');
             } else {
-                await certificationsService.create(payload);
+                const created = await certificationsService.create(payload, signal);
+                queryCache.setData<Paginated<Certification>>(certificationsKey, (previous) =>
+                    updateItems(previous, (items) =>
+                        items.map((cert) => (cert.id === tempId ? created : cert))
+                    )
+                );
                 toast.success('Certification created successfully');
             }
 
-            await loadData();
             handleCloseModal();
         } catch (error) {
-            toast.error(error instanceof Error ? error.message : 'Operation failed');
+            if (error instanceof OfflineQueuedError) {
+                toast.success(error.message);
+                handleCloseModal();
+                return;
+            }
+            rollback();
+            if (isAbortError(error)) return;
+            if (error instanceof EditConflictError && target) {
+                setConflict({ server: error.current, mine: data });
+                return;
+            }
+            if (!applyServerErrors(error, setError, Object.keys(certificationSchema.shape))) {
+                toast.error(error instanceof Error ? error.message : 'Operation failed');
+            }
         } finally {
             setIsSubmitting(false);
         }
     };
 
+    const onSubmit = (data: CertificationFormData) => saveCertification(data, editingCertification);
+
+    const handleOverwrite = () => {
+        if (!conflict) return;
+        setConflict(null);
+        setEditingCertification(conflict.server);
+        saveCertification(conflict.mine, conflict.server);
+    };
+
+    const handleReload = () => {
+        if (!conflict) return;
+        setConflict(null);
+        handleOpenModal(conflict.server);
+    };
+
+    const handleMerge = (merged: CertificationFormData) => {
+        if (!conflict) return;
+        setConflict(null);
+        setEditingCertification(conflict.server);
+        reset(merged);
+    };
+
     const handleDelete = async (id: string) => {
         setConfirmDialog({ open: true, certificationId: id });
     };
@@ -129,11 +227,23 @@ export default function CertificationsPage() {
     const confirmDelete = async () => {
         if (!confirmDialog.certificationId) return;
 
+        const certificationId = confirmDialog.certificationId;
+        const rollback = queryCache.optimistic<Paginated<Certification>>(certificationsKey, (previous) =>
+            updateItems(previous, (items) =>
+                items.filter((cert) => cert.id !== certificationId)
+            )
+        );
+
         try {
-            await certificationsService.delete(confirmDialog.certificationId);
+            await certificationsService.delete(certificationId, createAbortController().signal);
             toast.success('Certification deleted successfully');
-            await loadData();
         } catch (error) {
+            if (error instanceof OfflineQueuedError) {
+                toast.success(error.message);
+                return;
+            }
+            rollback();
+            if (isAbortError(error)) return;
             toast.error('Failed to delete certification');
         }
     };
@@ -154,46 +264,54 @@ export default function CertificationsPage() {
                         <h1 className="text-3xl font-bold text-white">Certifications</h1>
                         <p className="text-gray-400 mt-2">Manage your professional certifications</p>
                     </div>
-                    <Button onClick={() => handleOpenModal()}>
-                        <Plus className="w-4 h-4" />
-                        <span className="hidden sm:inline">Add Certification</span>
-                    </Button>
+                    {canEdit && (
+                        <Button onClick={() => handleOpenModal()}>
+                            <Plus className="w-4 h-4" />
+                            <span className="hidden sm:inline">Add Certification</span>
+                        </Button>
+                    )}
+                </div>
+                <div className="flex gap-3">
+                    <Input
+                        type="search"
+                        placeholder="Search certifications..."
+                        value={searchInput}
+                        onChange={(e) => setSearchInput(e.target.value)}
+                        className="w-full"
+                    />
+                    <SortSelect value={sortValue} options={sortOptions} onChange={setSort} />
                 </div>
-                <Input
-                    type="search"
-                    placeholder="Search certifications..."
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                    className="w-full"
-                />
             </div>
 
-            {(() => {
-                const filteredCertifications = certifications.filter(cert =>
-                    cert.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                    cert.issuingOrganization.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                    (cert.description && cert.description.toLowerCase().includes(searchQuery.toLowerCase()))
-                );
+            {certifications.length === 0 ? (
+                <div className="text-center py-12 bg-gray-900 border border-gray-800 rounded-xl">
+                    <p className="text-gray-400">
+                        {params.q ? 'No certifications found matching your search.' : 'No certifications yet. Add your first one to get started.'}
+                    </p>
+                </div>
+            ) : (
+                <div className="space-y-4">
+                    {certifications.map((cert) => (
+                        <CertificationItem
+                            key={cert.id}
+                            certification={cert}
+                            onEdit={handleOpenModal}
+                            onDelete={handleDelete}
+                            readOnly={!canEdit || isTempId(cert.id)}
+                        />
+                    ))}
+                </div>
+            )}
 
-                return filteredCertifications.length === 0 ? (
-                    <div className="text-center py-12 bg-gray-900 border border-gray-800 rounded-xl">
-                        <p className="text-gray-400">
-                            {searchQuery ? 'No certifications found matching your search.' : 'No certifications yet. Add your first one to get started.'}
-                        </p>
-                    </div>
-                ) : (
-                    <div className="space-y-4">
-                        {filteredCertifications.map((cert) => (
-                            <CertificationItem
-                                key={cert.id}
-                                certification={cert}
-                                onEdit={handleOpenModal}
-                                onDelete={handleDelete}
-                            />
-                        ))}
-                    </div>
-                );
-            })()}
+            {certificationsPage && (
+                <Pagination
+                    page={certificationsPage.page}
+                    totalPages={certificationsPage.totalPages}
+                    total={certificationsPage.total}
+                    onPageChange={setPage}
+                    disabled={isFetching}
+                />
+            )}
 
             <Modal
                 open={isModalOpen}
@@ -202,118 +320,130 @@ export default function CertificationsPage() {
                 description={editingCertification ? 'Update certification information' : 'Create a new certification entry'}
                 disabled={isSubmitting}
             >
-                <form onSubmit={handleSubmit(onSubmit)} className="space-y-4 max-h-[70vh] overflow-y-auto px-1 pr-3">
-                    <Input
-                        label="Certification Name"
-                        placeholder="e.g., AWS Certified Solutions Architect"
-                        disabled={isSubmitting}
-                        error={errors.name?.message}
-                        {...register('name')}
-                    />
-
-                    <Input
-                        label="Issuing Organization"
-                        placeholder="e.g., Amazon Web Services"
-                        disabled={isSubmitting}
-                        error={errors.issuingOrganization?.message}
-                        {...register('issuingOrganization')}
-                    />
-
-                    <Input
-                        label="Year"
-                        type="number"
-                        placeholder="2023"
-                        disabled={isSubmitting}
-                        error={errors.year?.message}
-                        {...register('year', { valueAsNumber: true })}
+                {!conflict && <RemoteChangeBadge resource={queryKeys.certifications} item={editingCertification} />}
+                {conflict ? (
+                    <EditConflict
+                        fields={conflictFields}
+                        mine={conflict.mine}
+                        theirs={toFormValues(conflict.server)}
+                        onOverwrite={handleOverwrite}
+                        onReload={handleReload}
+                        onMerge={handleMerge}
                     />
+                ) : (
+                    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4 max-h-[70vh] overflow-y-auto px-1 pr-3">
+                        <Input
+                            label="Certification Name"
+                            placeholder="e.g., AWS Certified Solutions Architect"
+                            disabled={isSubmitting}
+                            error={errors.name?.message}
+                            {...register('name')}
+                        />
 
-                    <div>
-                        <label className="block text-sm font-medium text-gray-300 mb-1.5">
-                            Description
-                        </label>
-                        <textarea
-                            className="flex w-full rounded-md border border-gray-700 bg-gray-900 px-3 py-2 text-sm text-gray-100 placeholder:text-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-600 focus:border-transparent disabled:cursor-not-allowed disabled:opacity-50 min-h-[100px]"
-                            placeholder="Describe the certification..."
+                        <Input
+                            label="Issuing Organization"
+                            placeholder="e.g., Amazon Web Services"
                             disabled={isSubmitting}
-                            {...register('description')}
+                            error={errors.issuingOrganization?.message}
+                            {...register('issuingOrganization')}
                         />
-                        {errors.description && (
-                            <p className="mt-1.5 text-sm text-red-500">{errors.description.message}</p>
-                        )}
-                    </div>
 
-                    <Input
-                        label="Certificate Link (Optional)"
-                        type="url"
-                        placeholder="https://..."
-                        disabled={isSubmitting}
-                        error={errors.certificateLink?.message}
-                        {...register('certificateLink')}
-                    />
+                        <Input
+                            label="Year"
+                            type="number"
+                            placeholder="2023"
+                            disabled={isSubmitting}
+                            error={errors.year?.message}
+                            {...register('year', { valueAsNumber: true })}
+                        />
 
-                    <div>
-                        <label className="block text-sm font-medium text-gray-300 mb-1.5">
-                            Skills
-                        </label>
-                        <Controller
-                            name="skillIds"
-                            control={control}
-                            render={({ field }) => (
-                                <div className="flex flex-wrap gap-2">
-                                    {skills.map((skill) => {
-                                        const isSelected = field.value?.includes(skill.id);
-                                        return (
-                                            <button
-                                                key={skill.id}
-                                                type="button"
-                                                disabled={isSubmitting}
-                                                onClick={() => {
-                                                    const newValue = isSelected
-                                                        ? (field.value || []).filter(id => id !== skill.id)
-                                                        : [...(field.value || []), skill.id];
-                                                    field.onChange(newValue);
-                                                }}
-                                                className={`
-                                                    px-4 py-2 rounded-full text-sm font-medium transition-all
-                                                    ${isSelected
-                                                        ? 'bg-primary-600 text-white border-2 border-primary-600 shadow-lg shadow-primary-600/30'
-                                                        : 'bg-gray-800 text-gray-300 border-2 border-gray-700 hover:border-gray-600 hover:bg-gray-750'
-                                                    }
-                                                    disabled:opacity-50 disabled:cursor-not-allowed
-                                                `}
-                                            >
-                                                {skill.name}
-                                            </button>
-                                        );
-                                    })}
-                                </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-300 mb-1.5">
+                                Description
+                            </label>
+                            <textarea
+                                className="flex w-full rounded-md border border-gray-700 bg-gray-900 px-3 py-2 text-sm text-gray-100 placeholder:text-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-600 focus:border-transparent disabled:cursor-not-allowed disabled:opacity-50 min-h-[100px]"
+                                placeholder="Describe the certification..."
+                                disabled={isSubmitting}
+                                {...register('description')}
+                            />
+                            {errors.description && (
+                                <p className="mt-1.5 text-sm text-red-500">{errors.description.message}</p>
                             )}
-                        />
-                    </div>
+                        </div>
 
-                    <div className="flex gap-3 pt-4">
-                        <Button
-                            type="button"
-                            variant="outline"
-                            onClick={handleCloseModal}
+                        <Input
+                            label="Certificate Link (Optional)"
+                            type="url"
+                            placeholder="https://..."
                             disabled={isSubmitting}
-                            className="flex-1"
-                        >
-                            Cancel
-                        </Button>
-                        <Button type="submit" disabled={isSubmitting} className="flex-1">
-                            {isSubmitting ? (
-                                <>
-                                    <Loader2 className="w-4 h-4 animate-spin" />
-                                    {editingCertification ? 'Updating...' : 'Creating...'}
-                                </>
-                            ) : (
-                                <>{editingCertification ? 'Update' : 'Create'}</>
-                            )}
-                        </Button>
-                    </div>
-                </form>
+                            error={errors.certificateLink?.message}
+                            {...register('certificateLink')}
+                        />
+
+                        <div>
+                            <label className="block text-sm font-medium text-gray-300 mb-1.5">
+                                Skills
+                            </label>
+                            <Controller
+                                name="skillIds"
+                                control={control}
+                                render={({ field }) => (
+                                    <div className="flex flex-wrap gap-2">
+                                        {skills.map((skill) => {
+                                            const isSelected = field.value?.includes(skill.id);
+                                            return (
+                                                <button
+                                                    key={skill.id}
+                                                    type="button"
+                                                    disabled={isSubmitting}
+                                                    onClick={() => {
+                                                        const newValue = isSelected
+                                                            ? (field.value || []).filter(id => id !== skill.id)
+                                                            : [...(field.value || []), skill.id];
+                                                        field.onChange(newValue);
+                                                    }}
+                                                    className={`
+                                                        px-4 py-2 rounded-full text-sm font-medium transition-all
+                                                        ${isSelected
+                                                            ? 'bg-primary-600 text-white border-2 border-primary-600 shadow-lg shadow-primary-600/30'
+                                                            : 'bg-gray-800 text-gray-300 border-2 border-gray-700 hover:border-gray-600 hover:bg-gray-750'
+                                                        }
+                                                        disabled:opacity-50 disabled:cursor-not-allowed
+                                                    `}
+                                                >
+                                                    {skill.name}
+                                                </button>
+                                            );
+                                        })}
+                                    </div>
+                                )}
+                            />
+                        </div>
+
+                        <div className="flex gap-3 pt-4">
+                            <Button
+                                type="button"
+                                variant="outline"
+                                onClick={handleCloseModal}
+                                disabled={isSubmitting}
+                                className="flex-1"
+                            >
+                                Cancel
+                            </Button>
+                            <Button type="submit" disabled={isSubmitting} className="flex-1">
+                                {isSubmitting ? (
+                                    <>
+                                        <Loader2 className="w-4 h-4 animate-spin" />
+                                        {editingCertification ? 'Updating...' : 'Creating...'}
+                                    </>
+                                ) : (
+                                    <>{editingCertification ? 'Update' : 'Create'}</>
+                                )}
+                            </Button>
+                        </div>
+                    </form>
+                )}
             </Modal>
 
             <ConfirmDialog
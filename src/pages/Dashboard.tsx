@@ -1,5 +1,6 @@
 import { useAuthStore } from '@/store/authStore';
 import { Link } from 'react-router-dom';
+import { hasPermission, type Permission } from '@/lib/permissions';
 import {
     User,
     Briefcase,
@@ -9,8 +10,8 @@ import {
     Wrench
 } from 'lucide-react';
 
-const stats = [
-    { name: 'User Details', icon: User, href: '/user-details', color: 'bg-blue-600' },
+const stats: { name: string; icon: typeof User; href: string; color: string; permission?: Permission }[] = [
+    { name: 'User Details', icon: User, href: '/user-details', color: 'bg-blue-600', permission: 'profile:manage' },
     { name: 'Skills', icon: Wrench, href: '/skills', color: 'bg-green-600' },
     { name: 'Experience', icon: Briefcase, href: '/experience', color: 'bg-purple-600' },
     { name: 'Education', icon: GraduationCap, href: '/education', color: 'bg-yellow-600' },
@@ -20,6 +21,7 @@ const stats = [
 
 export default function Dashboard() {
     const user = useAuthStore((state) => state.user);
+    const visibleStats = stats.filter((stat) => !stat.permission || hasPermission(user, stat.permission));
 
     return (
         <div>
@@ -29,7 +31,7 @@ export default function Dashboard() {
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {stats.map((stat) => (
+                {visibleStats.map((stat) => (
                     <Link
                         key={stat.name}
                         to={stat.href}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useCallback, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -8,9 +8,23 @@ import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import Modal from '@/components/ui/Modal';
 import ConfirmDialog from '@/components/ui/ConfirmDialog';
+import EditConflict, { type ConflictField } from '@/components/ui/EditConflict';
+import RemoteChangeBadge from '@/components/ui/RemoteChangeBadge';
+import Pagination from '@/components/ui/Pagination';
+import SortSelect from '@/components/ui/SortSelect';
+import { usePermission } from '@/hooks/usePermission';
+import { useAbortController } from '@/hooks/useAbortController';
 import { educationService } from '@/services/education';
-import type { Education } from '@/types';
+import { useQuery } from '@/hooks/useQuery';
+import { useListParams } from '@/hooks/useListParams';
+import { createTempId, isTempId, listKey, queryCache, queryKeys } from '@/lib/queryCache';
+import { updateItems } from '@/lib/pagination';
+import type { Education, Paginated } from '@/types';
 import EducationItem from '@/components/items/EducationItem';
+import { applyServerErrors } from '@/lib/formErrors';
+import { OfflineQueuedError } from '@/lib/outbox';
+import { EditConflictError, type EditConflictState } from '@/lib/editConflict';
+import { isAbortError } from '@/lib/apiError';
 
 const educationSchema = z.object({
     year: z.string().min(1, 'Year is required'),
@@ -20,13 +34,44 @@ const educationSchema = z.object({
 
 type EducationFormData = z.infer<typeof educationSchema>;
 
+const sortOptions = [
+    { value: 'year:desc', label: 'Newest first' },
+    { value: 'year:asc', label: 'Oldest first' },
+    { value: 'institutionName:asc', label: 'Institution (A-Z)' },
+];
+
+const toFormValues = (edu: Education): EducationFormData => ({
+    year: edu.year,
+    institutionName: edu.institutionName,
+    description: edu.description || '',
+});
+
+const conflictFields: ConflictField<EducationFormData>[] = [
+    { name: 'year', label: 'Year' },
+    { name: 'institutionName', label: 'Institution Name' },
+    { name: 'description', label: 'Description' },
+];
+
 export default function EducationPage() {
-    const [education, setEducation] = useState<Education[]>([]);
-    const [isLoading, setIsLoading] = useState(true);
+    const canEdit = usePermission('content:write');
+    const createAbortController = useAbortController();
+    const { params, searchInput, setSearchInput, sortValue, setSort, setPage } = useListParams({
+        defaultSort: 'year:desc',
+    });
+    const educationKey = listKey(queryKeys.education, params);
+    const fetchEducation = useCallback(
+        (signal?: AbortSignal) => educationService.list(params, signal),
+        [params]
+    );
+    const { data: educationPage, isLoading, isFetching } = useQuery(educationKey, fetchEducation, {
+        keepPreviousData: true,
+        errorMessage: 'Failed to load education',
+    });
+    const education = educationPage?.items ?? [];
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [editingEducation, setEditingEducation] = useState<Education | null>(null);
+    const [conflict, setConflict] = useState<EditConflictState<Education, EducationFormData> | null>(null);
     const [isSubmitting, setIsSubmitting] = useState(false);
-    const [searchQuery, setSearchQuery] = useState('');
     const [confirmDialog, setConfirmDialog] = useState<{ open: boolean; educationId: string | null }>({ open: false, educationId: null });
 
     const {
@@ -35,25 +80,11 @@ export default function EducationPage() {
         reset,
         formState: { errors },
         setValue,
+        setError,
     } = useForm<EducationFormData>({
         resolver: zodResolver(educationSchema),
     });
 
-    useEffect(() => {
-        loadEducation();
-    }, []);
-
-    const loadEducation = async () => {
-        try {
-            const data = await educationService.getAll();
-            setEducation(data);
-        } catch (error) {
-            toast.error('Failed to load education');
-        } finally {
-            setIsLoading(false);
-        }
-    };
-
     const handleOpenModal = (edu?: Education) => {
         if (edu) {
             setEditingEducation(edu);
@@ -71,28 +102,81 @@ export default function EducationPage() {
         setIsModalOpen(false);
         setEditingEducation(null);
         reset();
+        setConflict(null);
     };
 
-    const onSubmit = async (data: EducationFormData) => {
+    const saveEducation = async (data: EducationFormData, target: Education | null) => {
+        const now = new Date().toISOString();
+        const tempId = createTempId();
+        const fields = { ...data, description: data.description || null };
+        const rollback = queryCache.optimistic<Paginated<Education>>(educationKey, (previous) =>
+            updateItems(previous, (items) =>
+                target
+                    ? items.map((edu) => (edu.id === target.id ? { ...edu, ...fields } : edu))
+                    : [{ id: tempId, userId: '', createdAt: now, updatedAt: now, ...fields }, ...items]
+            )
+        );
+
+        const { signal } = createAbortController();
         setIsSubmitting(true);
         try {
-            if (editingEducation) {
-                await educationService.update(editingEducation.id, data);
+            if (target) {
+                const updated = await educationService.update(target.id, data, target.updatedAt, signal);
+                queryCache.setData<Paginated<Education>>(educationKey, (previous) =>
+                    updateItems(previous, (items) => items.map((edu) => (edu.id === updated.id ? updated : edu)))
+                );
                 toast.success('Education updated successfully');
             } else {
-                await educationService.create(data);
+                const created = await educationService.create(data, signal);
+                queryCache.setData<Paginated<Education>>(educationKey, (previous) =>
+                    updateItems(previous, (items) => items.map((edu) => (edu.id === tempId ? created : edu)))
+                );
                 toast.success('Education created successfully');
             }
 
-            await loadEducation();
             handleCloseModal();
         } catch (error) {
-            toast.error(error instanceof Error ? error.message : 'Operation failed');
+            if (error instanceof OfflineQueuedError) {
+                toast.success(error.message);
+                handleCloseModal();
+                return;
+            }
+            rollback();
+            if (isAbortError(error)) return;
+            if (error instanceof EditConflictError && target) {
+                setConflict({ server: error.current, mine: data });
+                return;
+            }
+            if (!applyServerErrors(error, setError, Object.keys(educationSchema.shape))) {
+                toast.error(error instanceof Error ? error.message : 'Operation failed');
+            }
         } finally {
             setIsSubmitting(false);
         }
     };
 
+    const onSubmit = (data: EducationFormData) => saveEducation(data, editingEducation);
+
+    const handleOverwrite = () => {
+        if (!conflict) return;
+        setConflict(null);
+        setEditingEducation(conflict.server);
+        saveEducation(conflict.mine, conflict.server);
+    };
+
+    const handleReload = () => {
+        if (!conflict) return;
+        setConflict(null);
+        handleOpenModal(conflict.server);
+    };
+
+    const handleMerge = (merged: EducationFormData) => {
+        if (!conflict) return;
+        setConflict(null);
+        setEditingEducation(conflict.server);
+        reset(merged);
+    };
+
     const handleDelete = async (id: string) => {
         setConfirmDialog({ open: true, educationId: id });
     };
@@ -100,11 +184,21 @@ export default function EducationPage() {
     const confirmDelete = async () => {
         if (!confirmDialog.educationId) return;
 
+        const educationId = confirmDialog.educationId;
+        const rollback = queryCache.optimistic<Paginated<Education>>(educationKey, (previous) =>
+            updateItems(previous, (items) => items.filter((edu) => edu.id !== educationId))
+        );
+
         try {
-            await educationService.delete(confirmDialog.educationId);
+            await educationService.delete(educationId, createAbortController().signal);
             toast.success('Education deleted successfully');
-            await loadEducation();
         } catch (error) {
+            if (error instanceof OfflineQueuedError) {
+                toast.success(error.message);
+                return;
+            }
+            rollback();
+            if (isAbortError(error)) return;
             toast.error('Failed to delete education');
         }
     };
@@ -125,45 +219,54 @@ export default function EducationPage() {
                         <h1 className="text-3xl font-bold text-white">Education</h1>
                         <p className="text-gray-400 mt-2">Manage your educational background</p>
                     </div>
-                    <Button onClick={() => handleOpenModal()}>
-                        <Plus className="w-4 h-4" />
-                        <span className="hidden sm:inline">Add Education</span>
-                    </Button>
+                    {canEdit && (
+                        <Button onClick={() => handleOpenModal()}>
+                            <Plus className="w-4 h-4" />
+                            <span className="hidden sm:inline">Add Education</span>
+                        </Button>
+                    )}
+                </div>
+                <div className="flex gap-3">
+                    <Input
+                        type="search"
+                        placeholder="Search education..."
+                        value={searchInput}
+                        onChange={(e) => setSearchInput(e.target.value)}
+                        className="w-full"
+                    />
+                    <SortSelect value={sortValue} options={sortOptions} onChange={setSort} />
                 </div>
-                <Input
-                    type="search"
-                    placeholder="Search education..."
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                    className="w-full"
-                />
             </div>
 
-            {(() => {
-                const filteredEducation = education.filter(edu =>
-                    edu.institutionName.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                    (edu.description && edu.description.toLowerCase().includes(searchQuery.toLowerCase()))
-                );
+            {education.length === 0 ? (
+                <div className="text-center py-12 bg-gray-900 border border-gray-800 rounded-xl">
+                    <p className="text-gray-400">
+                        {params.q ? 'No education entries found matching your search.' : 'No education entries yet. Add your first one to get started.'}
+                    </p>
+                </div>
+            ) : (
+                <div className="space-y-4">
+                    {education.map((edu) => (
+                        <EducationItem
+                            key={edu.id}
+                            education={edu}
+                            onEdit={handleOpenModal}
+                            onDelete={handleDelete}
+                            readOnly={!canEdit || isTempId(edu.id)}
+                        />
+                    ))}
+                </div>
+            )}
 
-                return filteredEducation.length === 0 ? (
-                    <div className="text-center py-12 bg-gray-900 border border-gray-800 rounded-xl">
-                        <p className="text-gray-400">
-                            {searchQuery ? 'No education entries found matching your search.' : 'No education entries yet. Add your first one to get started.'}
-                        </p>
-                    </div>
-                ) : (
-                    <div className="space-y-4">
-                        {filteredEducation.map((edu) => (
-                            <EducationItem
-                                key={edu.id}
-                                education={edu}
-                                onEdit={handleOpenModal}
-                                onDelete={handleDelete}
-                            />
-                        ))}
-                    </div>
-                );
-            })()}
+            {educationPage && (
+                <Pagination
+                    page={educationPage.page}
+                    totalPages={educationPage.totalPages}
+                    total={educationPage.total}
+                    onPageChange={setPage}
+                    disabled={isFetching}
+                />
+            )}
 
             <Modal
                 open={isModalOpen}
@@ -172,60 +275,72 @@ export default function EducationPage() {
                 description={editingEducation ? 'Update education information' : 'Create a new education entry'}
                 disabled={isSubmitting}
             >
-                <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
-                    <Input
-                        label="Year"
-                        placeholder="e.g., 2015-2019"
-                        disabled={isSubmitting}
-                        error={errors.year?.message}
-                        {...register('year')}
-                    />
-
-                    <Input
-                        label="Institution Name"
-                        placeholder="e.g., University of Technology"
-                        disabled={isSubmitting}
-                        error={errors.institutionName?.message}
-                        {...register('institutionName')}
+                {!conflict && <RemoteChangeBadge resource={queryKeys.education} item={editingEducation} />}
+                {conflict ? (
+                    <EditConflict
+                        fields={conflictFields}
+                        mine={conflict.mine}
+                        theirs={toFormValues(conflict.server)}
+                        onOverwrite={handleOverwrite}
+                        onReload={handleReload}
+                        onMerge={handleMerge}
                     />
-
-                    <div>
-                        <label className="block text-sm font-medium text-gray-300 mb-1.5">
-                            Description
-                        </label>
-                        <textarea
-                            className="flex w-full rounded-md border border-gray-700 bg-gray-900 px-3 py-2 text-sm text-gray-100 placeholder:text-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-600 focus:border-transparent disabled:cursor-not-allowed disabled:opacity-50 min-h-[100px]"
-                            placeholder="e.g., Bachelor of Science in Computer Science"
+                ) : (
+                    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                        <Input
+                            label="Year"
+                            placeholder="e.g., 2015-2019"
                             disabled={isSubmitting}
-                            {...register('description')}
+                            error={errors.year?.message}
+                            {...register('year')}
                         />
-                        {errors.description && (
-                            <p className="mt-1.5 text-sm text-red-500">{errors.description.message}</p>
-                        )}
-                    </div>
 
-                    <div className="flex gap-3 pt-4">
-                        <Button
-                            type="button"
-                            variant="outline"
-                            onClick={handleCloseModal}
+                        <Input
+                            label="Institution Name"
+                            placeholder="e.g., University of Technology"
                             disabled={isSubmitting}
-                            className="flex-1"
-                        >
-                            Cancel
-                        </Button>
-                        <Button type="submit" disabled={isSubmitting} className="flex-1">
-                            {isSubmitting ? (
-                                <>
-                                    <Loader2 className="w-4 h-4 animate-spin" />
-                                    {editingEducation ? 'Updating...' : 'Creating...'}
-                                </>
-                            ) : (
-                                <>{editingEducation ? 'Update' : 'Create'}</>
+                            error={errors.institutionName?.message}
+                            {...register('institutionName')}
+                        />
+
+                        <div>
+                            <label className="block text-sm font-medium text-gray-300 mb-1.5">
+                                Description
+                            </label>
+                            <textarea
+                                className="flex w-full rounded-md border border-gray-700 bg-gray-900 px-3 py-2 text-sm text-gray-100 placeholder:text-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-600 focus:border-transparent disabled:cursor-not-allowed disabled:opacity-50 min-h-[100px]"
+                                placeholder="e.g., Bachelor of Science in Computer Science"
+                                disabled={isSubmitting}
+                                {...register('description')}
+                            />
+                            {errors.description && (
+                                <p className="mt-1.5 text-sm text-red-500">{errors.description.message}</p>
                             )}
-                        </Button>
-                    </div>
-                </form>
+                        </div>
+
+                        <div className="flex gap-3 pt-4">
+                            <Button
+                                type="button"
+                                variant="outline"
+                                onClick={handleCloseModal}
+                                disabled={isSubmitting}
+                                className="flex-1"
+                            >
+                                Cancel
+                            </Button>
+                            <Button type="submit" disabled={isSubmitting} className="flex-1">
+                                {isSubmitting ? (
+                                    <>
+                                        <Loader2 className="w-4 h-4 animate-spin" />
+                                        {editingEducation ? 'Updating...' : 'Creating...'}
+                                    </>
+                                ) : (
+                                    <>{editingEducation ? 'Update' : 'Create'}</>
+                                )}
+                            </Button>
+                        </div>
+                    </form>
+                )}
             </Modal>
 
             <ConfirmDialog
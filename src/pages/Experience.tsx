@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useCallback, useState } from 'react';
 import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -8,10 +8,24 @@ import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import Modal from '@/components/ui/Modal';
 import ConfirmDialog from '@/components/ui/ConfirmDialog';
+import EditConflict, { type ConflictField } from '@/components/ui/EditConflict';
+import RemoteChangeBadge from '@/components/ui/RemoteChangeBadge';
+import Pagination from '@/components/ui/Pagination';
+import SortSelect from '@/components/ui/SortSelect';
+import { usePermission } from '@/hooks/usePermission';
+import { useAbortController } from '@/hooks/useAbortController';
 import { experienceService } from '@/services/experience';
 import { skillsService } from '@/services/skills';
-import type { Experience, Skill } from '@/types';
+import { useQuery } from '@/hooks/useQuery';
+import { useListParams } from '@/hooks/useListParams';
+import { createTempId, isTempId, listKey, queryCache, queryKeys } from '@/lib/queryCache';
+import { updateItems } from '@/lib/pagination';
+import type { Experience, Paginated } from '@/types';
 import ExperienceItem from '@/components/items/ExperienceItem';
+import { applyServerErrors } from '@/lib/formErrors';
+import { OfflineQueuedError } from '@/lib/outbox';
+import { EditConflictError, type EditConflictState } from '@/lib/editConflict';
+import { isAbortError } from '@/lib/apiError';
 
 const experienceSchema = z.object({
     startYear: z.number().min(1900, 'Invalid year').max(new Date().getFullYear() + 10),
@@ -24,15 +38,53 @@ const experienceSchema = z.object({
 
 type ExperienceFormData = z.infer<typeof experienceSchema>;
 
+const sortOptions = [
+    { value: 'startYear:desc', label: 'Newest first' },
+    { value: 'startYear:asc', label: 'Oldest first' },
+    { value: 'companyName:asc', label: 'Company (A-Z)' },
+];
+
+const toFormValues = (exp: Experience): ExperienceFormData => ({
+    startYear: exp.startYear,
+    endYear: exp.endYear,
+    companyName: exp.companyName,
+    description: exp.description || '',
+    location: exp.location,
+    skillIds: exp.experienceSkills?.map((es) => es.skill.id) || [],
+});
+
 export default function ExperiencePage() {
-    const [experiences, setExperiences] = useState<Experience[]>([]);
-    const [skills, setSkills] = useState<Skill[]>([]);
-    const [isLoading, setIsLoading] = useState(true);
+    const canEdit = usePermission('content:write');
+    const createAbortController = useAbortController();
+    const { params, searchInput, setSearchInput, sortValue, setSort, setPage } = useListParams({
+        defaultSort: 'startYear:desc',
+    });
+    const experiencesKey = listKey(queryKeys.experience, params);
+    const fetchExperiences = useCallback(
+        (signal?: AbortSignal) => experienceService.list(params, signal),
+        [params]
+    );
+    const { data: experiencesPage, isLoading, isFetching } = useQuery(experiencesKey, fetchExperiences, {
+        keepPreviousData: true,
+        errorMessage: 'Failed to load experience',
+    });
+    const experiences = experiencesPage?.items ?? [];
+    const { data: skills = [] } = useQuery(queryKeys.skills, skillsService.getAll);
+    const formatSkills = (skillIds?: string[]) =>
+        skills.filter((skill) => skillIds?.includes(skill.id)).map((skill) => skill.name).join(', ') || '—';
+    const conflictFields: ConflictField<ExperienceFormData>[] = [
+        { name: 'startYear', label: 'Start Year' },
+        { name: 'endYear', label: 'End Year', format: (value) => (value === null ? 'Present' : String(value)) },
+        { name: 'companyName', label: 'Company Name' },
+        { name: 'location', label: 'Location' },
+        { name: 'description', label: 'Description' },
+        { name: 'skillIds', label: 'Skills', format: (value) => formatSkills(value as string[] | undefined) },
+    ];
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [editingExperience, setEditingExperience] = useState<Experience | null>(null);
+    const [conflict, setConflict] = useState<EditConflictState<Experience, ExperienceFormData> | null>(null);
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [isCurrentJob, setIsCurrentJob] = useState(false);
-    const [searchQuery, setSearchQuery] = useState('');
     const [confirmDialog, setConfirmDialog] = useState<{ open: boolean; experienceId: string | null }>({ open: false, experienceId: null });
 
     const {
@@ -42,6 +94,7 @@ export default function ExperiencePage() {
         control,
         formState: { errors },
         setValue,
+        setError,
     } = useForm<ExperienceFormData>({
         resolver: zodResolver(experienceSchema),
         defaultValues: {
@@ -50,25 +103,6 @@ export default function ExperiencePage() {
         },
     });
 
-    useEffect(() => {
-        loadData();
-    }, []);
-
-    const loadData = async () => {
-        try {
-            const [experiencesData, skillsData] = await Promise.all([
-                experienceService.getAll(),
-                skillsService.getAll(),
-            ]);
-            setExperiences(experiencesData);
-            setSkills(skillsData);
-        } catch (error) {
-            toast.error('Failed to load data');
-        } finally {
-            setIsLoading(false);
-        }
-    };
-
     const handleOpenModal = (exp?: Experience) => {
         if (exp) {
             setEditingExperience(exp);
@@ -99,33 +133,98 @@ export default function ExperiencePage() {
         setEditingExperience(null);
         reset();
         setIsCurrentJob(false);
+        setConflict(null);
     };
 
-    const onSubmit = async (data: ExperienceFormData) => {
+    const saveExperience = async (data: ExperienceFormData, target: Experience | null) => {
+        const payload = {
+            ...data,
+            endYear: isCurrentJob ? null : data.endYear,
+        };
+
+        const now = new Date().toISOString();
+        const tempId = createTempId();
+        const fields = {
+            startYear: payload.startYear,
+            endYear: payload.endYear,
+            companyName: payload.companyName,
+            description: payload.description || null,
+            location: payload.location,
+            experienceSkills: skills
+                .filter((skill) => payload.skillIds?.includes(skill.id))
+                .map((skill) => ({ skill })),
+        };
+        const rollback = queryCache.optimistic<Paginated<Experience>>(experiencesKey, (previous) =>
+            updateItems(previous, (items) =>
+                target
+                    ? items.map((exp) => (exp.id === target.id ? { ...exp, ...fields } : exp))
+                    : [{ id: tempId, userId: '', createdAt: now, updatedAt: now, ...fields }, ...items]
+            )
+        );
+
+        const { signal } = createAbortController();
         setIsSubmitting(true);
         try {
-            const payload = {
-                ...data,
-                endYear: isCurrentJob ? null : data.endYear,
-            };
-
-            if (editingExperience) {
-                await experienceService.update(editingExperience.id, payload);
+            if (target) {
+                const updated = await experienceService.update(target.id, payload, target.updatedAt, signal);
+                queryCache.setData<Paginated<Experience>>(experiencesKey, (previous) =>
+                    updateItems(previous, (items) => items.map((exp) => (exp.id === updated.id ? updated : exp)))
+                );
                 toast.success('Experience updated successfully');
             } else {
-                await experienceService.create(payload);
+                const created = await experienceService.create(payload, signal);
+                queryCache.setData<Paginated<Experience>>(experiencesKey, (previous) =>
+                    updateItems(previous, (items) =>
+                        items.map((exp) => (exp.id === tempId ? created : exp))
+                    )
+                );
                 toast.success('Experience created successfully');
             }
 
-            await loadData();
             handleCloseModal();
         } catch (error) {
-            toast.error(error instanceof Error ? error.message : 'Operation failed');
+            if (error instanceof OfflineQueuedError) {
+                toast.success(error.message);
+                handleCloseModal();
+                return;
+            }
+            rollback();
+            if (isAbortError(error)) return;
+            if (error instanceof EditConflictError && target) {
+                setConflict({ server: error.current, mine: payload });
+                return;
+            }
+            if (!applyServerErrors(error, setError, Object.keys(experienceSchema.shape))) {
+                toast.error(error instanceof Error ? error.message : 'Operation failed');
+            }
         } finally {
             setIsSubmitting(false);
         }
     };
 
+    const onSubmit = (data: ExperienceFormData) => saveExperience(data, editingExperience);
+
+    const handleOverwrite = () => {
+        if (!conflict) return;
+        setConflict(null);
+        setEditingExperience(conflict.server);
+        saveExperience(conflict.mine, conflict.server);
+    };
+
+    const handleReload = () => {
+        if (!conflict) return;
+        setConflict(null);
+        handleOpenModal(conflict.server);
+    };
+
+    const handleMerge = (merged: ExperienceFormData) => {
+        if (!conflict) return;
+        setConflict(null);
+        setEditingExperience(conflict.server);
+        reset(merged);
+        setIsCurrentJob(merged.endYear === null);
+    };
+
     const handleDelete = async (id: string) => {
         setConfirmDialog({ open: true, experienceId: id });
     };
@@ -133,11 +232,23 @@ export default function ExperiencePage() {
     const confirmDelete = async () => {
         if (!confirmDialog.experienceId) return;
 
+        const experienceId = confirmDialog.experienceId;
+        const rollback = queryCache.optimistic<Paginated<Experience>>(experiencesKey, (previous) =>
+            updateItems(previous, (items) =>
+                items.filter((exp) => exp.id !== experienceId)
+            )
+        );
+
         try {
-            await experienceService.delete(confirmDialog.experienceId);
+            await experienceService.delete(experienceId, createAbortController().signal);
             toast.success('Experience deleted successfully');
-            await loadData();
         } catch (error) {
+            if (error instanceof OfflineQueuedError) {
+                toast.success(error.message);
+                return;
+            }
+            rollback();
+            if (isAbortError(error)) return;
             toast.error('Failed to delete experience');
         }
     };
@@ -158,46 +269,54 @@ export default function ExperiencePage() {
                         <h1 className="text-3xl font-bold text-white">Experience</h1>
                         <p className="text-gray-400 mt-2">Manage your work experience</p>
                     </div>
-                    <Button onClick={() => handleOpenModal()}>
-                        <Plus className="w-4 h-4" />
-                        <span className="hidden sm:inline">Add Experience</span>
-                    </Button>
+                    {canEdit && (
+                        <Button onClick={() => handleOpenModal()}>
+                            <Plus className="w-4 h-4" />
+                            <span className="hidden sm:inline">Add Experience</span>
+                        </Button>
+                    )}
+                </div>
+                <div className="flex gap-3">
+                    <Input
+                        type="search"
+                        placeholder="Search experiences..."
+                        value={searchInput}
+                        onChange={(e) => setSearchInput(e.target.value)}
+                        className="w-full"
+                    />
+                    <SortSelect value={sortValue} options={sortOptions} onChange={setSort} />
                 </div>
-                <Input
-                    type="search"
-                    placeholder="Search experiences..."
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                    className="w-full"
-                />
             </div>
 
-            {(() => {
-                const filteredExperiences = experiences.filter(exp =>
-                    exp.companyName.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                    exp.location.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                    (exp.description && exp.description.toLowerCase().includes(searchQuery.toLowerCase()))
-                );
+            {experiences.length === 0 ? (
+                <div className="text-center py-12 bg-gray-900 border border-gray-800 rounded-xl">
+                    <p className="text-gray-400">
+                        {params.q ? 'No experiences found matching your search.' : 'No experience entries yet. Add your first one to get started.'}
+                    </p>
+                </div>
+            ) : (
+                <div className="space-y-4">
+                    {experiences.map((exp) => (
+                        <ExperienceItem
+                            key={exp.id}
+                            experience={exp}
+                            onEdit={handleOpenModal}
+                            onDelete={handleDelete}
+                            readOnly={!canEdit || isTempId(exp.id)}
+                        />
+                    ))}
+                </div>
+            )}
 
-                return filteredExperiences.length === 0 ? (
-                    <div className="text-center py-12 bg-gray-900 border border-gray-800 rounded-xl">
-                        <p className="text-gray-400">
-                            {searchQuery ? 'No experiences found matching your search.' : 'No experience entries yet. Add your first one to get started.'}
-                        </p>
-                    </div>
-                ) : (
-                    <div className="space-y-4">
-                        {filteredExperiences.map((exp) => (
-                            <ExperienceItem
-                                key={exp.id}
-                                experience={exp}
-                                onEdit={handleOpenModal}
-                                onDelete={handleDelete}
-                            />
-                        ))}
-                    </div>
-                );
-            })()}
+            {experiencesPage && (
+                <Pagination
+                    page={experiencesPage.page}
+                    totalPages={experiencesPage.totalPages}
+                    total={experiencesPage.total}
+                    onPageChange={setPage}
+                    disabled={isFetching}
+                />
+            )}
 
             <Modal
                 open={isModalOpen}
@@ -206,139 +325,151 @@ export default function ExperiencePage() {
                 description={editingExperience ? 'Update experience information' : 'Create a new experience entry'}
                 disabled={isSubmitting}
             >
-                <form onSubmit={handleSubmit(onSubmit)} className="space-y-4 max-h-[70vh] overflow-y-auto px-1 pr-3">
-                    <Input
-                        label="Company Name"
-                        placeholder="e.g., Tech Corp"
-                        disabled={isSubmitting}
-                        error={errors.companyName?.message}
-                        {...register('companyName')}
-                    />
-
-                    <Input
-                        label="Location"
-                        placeholder="e.g., San Francisco, CA"
-                        disabled={isSubmitting}
-                        error={errors.location?.message}
-                        {...register('location')}
+                {!conflict && <RemoteChangeBadge resource={queryKeys.experience} item={editingExperience} />}
+                {conflict ? (
+                    <EditConflict
+                        fields={conflictFields}
+                        mine={conflict.mine}
+                        theirs={toFormValues(conflict.server)}
+                        onOverwrite={handleOverwrite}
+                        onReload={handleReload}
+                        onMerge={handleMerge}
                     />
+                ) : (
+                    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4 max-h-[70vh] overflow-y-auto px-1 pr-3">
+                        <Input
+                            label="Company Name"
+                            placeholder="e.g., Tech Corp"
+                            disabled={isSubmitting}
+                            error={errors.companyName?.message}
+                            {...register('companyName')}
+                        />
 
-                    <div className="grid grid-cols-2 gap-4">
                         <Input
-                            label="Start Year"
-                            type="number"
-                            placeholder="2020"
+                            label="Location"
+                            placeholder="e.g., San Francisco, CA"
                             disabled={isSubmitting}
-                            error={errors.startYear?.message}
-                            {...register('startYear', { valueAsNumber: true })}
+                            error={errors.location?.message}
+                            {...register('location')}
                         />
 
-                        <div>
+                        <div className="grid grid-cols-2 gap-4">
                             <Input
-                                label="End Year"
+                                label="Start Year"
                                 type="number"
-                                placeholder="2023"
-                                disabled={isCurrentJob || isSubmitting}
-                                error={errors.endYear?.message}
-                                {...register('endYear', {
-                                    valueAsNumber: true,
-                                    setValueAs: (v) => v === '' ? null : Number(v)
-                                })}
+                                placeholder="2020"
+                                disabled={isSubmitting}
+                                error={errors.startYear?.message}
+                                {...register('startYear', { valueAsNumber: true })}
                             />
-                            <label className="flex items-center gap-2 mt-2 text-sm text-gray-300">
-                                <input
-                                    type="checkbox"
-                                    checked={isCurrentJob}
-                                    onChange={(e) => {
-                                        setIsCurrentJob(e.target.checked);
-                                        if (e.target.checked) {
-                                            setValue('endYear', null);
-                                        }
-                                    }}
-                                    className="rounded border-gray-600 text-primary-600 focus:ring-primary-600"
+
+                            <div>
+                                <Input
+                                    label="End Year"
+                                    type="number"
+                                    placeholder="2023"
+                                    disabled={isCurrentJob || isSubmitting}
+                                    error={errors.endYear?.message}
+                                    {...register('endYear', {
+                                        valueAsNumber: true,
+                                        setValueAs: (v) => v === '' ? null : Number(v)
+                                    })}
                                 />
-                                Currently working here
-                            </label>
+                                <label className="flex items-center gap-2 mt-2 text-sm text-gray-300">
+                                    <input
+                                        type="checkbox"
+                                        checked={isCurrentJob}
+                                        onChange={(e) => {
+                                            setIsCurrentJob(e.target.checked);
+                                            if (e.target.checked) {
+                                                setValue('endYear', null);
+                                            }
+                                        }}
+                                        className="rounded border-gray-600 text-primary-600 focus:ring-primary-600"
+                                    />
+                                    Currently working here
+                                </label>
+                            </div>
                         </div>
-                    </div>
-
-                    <div>
-                        <label className="block text-sm font-medium text-gray-300 mb-1.5">
-                            Description
-                        </label>
-                        <textarea
-                            className="flex w-full rounded-md border border-gray-700 bg-gray-900 px-3 py-2 text-sm text-gray-100 placeholder:text-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-600 focus:border-transparent disabled:cursor-not-allowed disabled:opacity-50 min-h-[100px]"
-                            placeholder="Describe your role and responsibilities..."
-                            disabled={isSubmitting}
-                            {...register('description')}
-                        />
-                        {errors.description && (
-                            <p className="mt-1.5 text-sm text-red-500">{errors.description.message}</p>
-                        )}
-                    </div>
 
-                    <div>
-                        <label className="block text-sm font-medium text-gray-300 mb-1.5">
-                            Skills
-                        </label>
-                        <Controller
-                            name="skillIds"
-                            control={control}
-                            render={({ field }) => (
-                                <div className="flex flex-wrap gap-2">
-                                    {skills.map((skill) => {
-                                        const isSelected = field.value?.includes(skill.id);
-                                        return (
-                                            <button
-                                                key={skill.id}
-                                                type="button"
-                                                disabled={isSubmitting}
-                                                onClick={() => {
-                                                    const newValue = isSelected
-                                                        ? (field.value || []).filter(id => id !== skill.id)
-                                                        : [...(field.value || []), skill.id];
-                                                    field.onChange(newValue);
-                                                }}
-                                                className={`
-                                                    px-4 py-2 rounded-full text-sm font-medium transition-all
-                                                    ${isSelected
-                                                        ? 'bg-primary-600 text-white border-2 border-primary-600 shadow-lg shadow-primary-600/30'
-                                                        : 'bg-gray-800 text-gray-300 border-2 border-gray-700 hover:border-gray-600 hover:bg-gray-750'
-                                                    }
-                                                    disabled:opacity-50 disabled:cursor-not-allowed
-                                                `}
-                                            >
-                                                {skill.name}
-                                            </button>
-                                        );
-                                    })}
-                                </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-300 mb-1.5">
+                                Description
+                            </label>
+                            <textarea
+                                className="flex w-full rounded-md border border-gray-700 bg-gray-900 px-3 py-2 text-sm text-gray-100 placeholder:text-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-600 focus:border-transparent disabled:cursor-not-allowed disabled:opacity-50 min-h-[100px]"
+                                placeholder="Describe your role and responsibilities..."
+                                disabled={isSubmitting}
+                                {...register('description')}
+                            />
+                            {errors.description && (
+                                <p className="mt-1.5 text-sm text-red-500">{errors.description.message}</p>
                             )}
-                        />
-                    </div>
+                        </div>
 
-                    <div className="flex gap-3 pt-4 sticky bottom-0 bg-gray-900 pb-2">
-                        <Button
-                            type="button"
-                            variant="outline"
-                            onClick={handleCloseModal}
-                            disabled={isSubmitting}
-                            className="flex-1"
-                        >
-                            Cancel
-                        </Button>
-                        <Button type="submit" disabled={isSubmitting} className="flex-1">
-                            {isSubmitting ? (
-                                <>
-                                    <Loader2 className="w-4 h-4 animate-spin" />
-                                    {editingExperience ? 'Updating...' : 'Creating...'}
-                                </>
-                            ) : (
-                                <>{editingExperience ? 'Update' : 'Create'}</>
-                            )}
-                        </Button>
-                    </div>
-                </form>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-300 mb-1.5">
+                                Skills
+                            </label>
+                            <Controller
+                                name="skillIds"
+                                control={control}
+                                render={({ field }) => (
+                                    <div className="flex flex-wrap gap-2">
+                                        {skills.map((skill) => {
+                                            const isSelected = field.value?.includes(skill.id);
+                                            return (
+                                                <button
+                                                    key={skill.id}
+                                                    type="button"
+                                                    disabled={isSubmitting}
+                                                    onClick={() => {
+                                                        const newValue = isSelected
+                                                            ? (field.value || []).filter(id => id !== skill.id)
+                                                            : [...(field.value || []), skill.id];
+                                                        field.onChange(newValue);
+                                                    }}
+                                                    className={`
+                                                        px-4 py-2 rounded-full text-sm font-medium transition-all
+                                                        ${isSelected
+                                                            ? 'bg-primary-600 text-white border-2 border-primary-600 shadow-lg shadow-primary-600/30'
+                                                            : 'bg-gray-800 text-gray-300 border-2 border-gray-700 hover:border-gray-600 hover:bg-gray-750'
+                                                        }
+                                                        disabled:opacity-50 disabled:cursor-not-allowed
+                                                    `}
+                                                >
+                                                    {skill.name}
+                                                </button>
+                                            );
+                                        })}
+                                    </div>
+                                )}
+                            />
+                        </div>
+
+                        <div className="flex gap-3 pt-4 sticky bottom-0 bg-gray-900 pb-2">
+                            <Button
+                                type="button"
+                                variant="outline"
+                                onClick={handleCloseModal}
+                                disabled={isSubmitting}
+                                className="flex-1"
+                            >
+                                Cancel
+                            </Button>
+                            <Button type="submit" disabled={isSubmitting} className="flex-1">
+                                {isSubmitting ? (
+                                    <>
+                                        <Loader2 className="w-4 h-4 animate-spin" />
+                                        {editingExperience ? 'Updating...' : 'Creating...'}
+                                    </>
+                                ) : (
+                                    <>{editingExperience ? 'Update' : 'Create'}</>
+                                )}
+                            </Button>
+                        </div>
+                    </form>
+                )}
             </Modal>
 
             <ConfirmDialog
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Link, Navigate, useNavigate, useSearchParams } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -8,19 +8,33 @@ import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { authService } from '@/services/auth';
 import { useAuthStore } from '@/store/authStore';
-import { LogIn } from 'lucide-react';
+import type { User } from '@/types';
+import { config } from '@/lib/config';
+import { getSafeRedirect, REDIRECT_PARAM } from '@/lib/redirect';
+import { DEMO_CREDENTIALS } from '@/mocks/fixtures';
+import { LogIn, ShieldCheck } from 'lucide-react';
 
 const loginSchema = z.object({
     identifier: z.string().min(3, 'Username/Email must be at least 3 characters'),
     password: z.string().min(6, 'Password must be at least 6 characters'),
 });
 
+const twoFactorSchema = z.object({
+    code: z.string().trim().min(6, 'Enter the 6-digit code or a recovery code'),
+});
+
 type LoginFormData = z.infer<typeof loginSchema>;
+type TwoFactorFormData = z.infer<typeof twoFactorSchema>;
 
 export default function Login() {
     const navigate = useNavigate();
+    const [searchParams] = useSearchParams();
+    const redirectTo = getSafeRedirect(searchParams.get(REDIRECT_PARAM));
     const setUser = useAuthStore((state) => state.setUser);
+    const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
     const [isLoading, setIsLoading] = useState(false);
+    const [challengeToken, setChallengeToken] = useState<string | null>(null);
+    const [useRecoveryCode, setUseRecoveryCode] = useState(false);
 
     const {
         register,
@@ -30,13 +44,25 @@ export default function Login() {
         resolver: zodResolver(loginSchema),
     });
 
+    const twoFactorForm = useForm<TwoFactorFormData>({
+        resolver: zodResolver(twoFactorSchema),
+    });
+
+    const completeLogin = (user: User) => {
+        setUser(user);
+        toast.success('Login successful!');
+        navigate(redirectTo, { replace: true });
+    };
+
     const onSubmit = async (data: LoginFormData) => {
         setIsLoading(true);
         try {
-            const { user } = await authService.login(data);
-            setUser(user);
-            toast.success('Login successful!');
-            navigate('/');
+            const result = await authService.login(data);
+            if (result.status === 'two_factor_required') {
+                setChallengeToken(result.challengeToken);
+                return;
+            }
+            completeLogin(result.user);
         } catch (error) {
             toast.error(error instanceof Error ? error.message : 'Login failed', {
                 duration: 4000,
@@ -46,44 +72,167 @@ export default function Login() {
         }
     };
 
+    const onSubmitTwoFactor = async (data: TwoFactorFormData) => {
+        if (!challengeToken) return;
+
+        setIsLoading(true);
+        try {
+            const { user } = await authService.verifyTwoFactor({ challengeToken, code: data.code });
+            completeLogin(user);
+        } catch (error) {
+            twoFactorForm.setError('code', {
+                type: 'server',
+                message: error instanceof Error ? error.message : 'Verification failed',
+            });
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleResetDemoData = async () => {
+        try {
+            const { resetMockApi } = await import('@/mocks/adapter');
+            await resetMockApi();
+            toast.success('Demo data has been reset');
+        } catch {
+            toast.error('Failed to reset demo data');
+        }
+    };
+
+    const handleBackToLogin = () => {
+        setChallengeToken(null);
+        setUseRecoveryCode(false);
+        twoFactorForm.reset();
+    };
+
+    if (isAuthenticated && !isLoading) {
+        return <Navigate to={redirectTo} replace />;
+    }
+
     return (
         <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-gray-900 via-gray-950 to-black p-4">
             <div className="w-full max-w-md">
                 <div className="bg-gray-900/50 backdrop-blur-xl border border-gray-800 rounded-2xl shadow-2xl p-8">
-                    <div className="flex flex-col items-center mb-8">
-                        <div className="w-16 h-16 bg-primary-600 rounded-full flex items-center justify-center mb-4">
-                            <LogIn className="w-8 h-8 text-white" />
-                        </div>
-                        <h1 className="text-3xl font-bold text-white">Welcome Back</h1>
-                        <p className="text-gray-400 mt-2">Sign in to your CMS account</p>
-                    </div>
+                    {challengeToken ? (
+                        <>
+                            <div className="flex flex-col items-center mb-8">
+                                <div className="w-16 h-16 bg-primary-600 rounded-full flex items-center justify-center mb-4">
+                                    <ShieldCheck className="w-8 h-8 text-white" />
+                                </div>
+                                <h1 className="text-3xl font-bold text-white">Two-Factor Check</h1>
+                                <p className="text-gray-400 mt-2 text-center">
+                                    {useRecoveryCode
+                                        ? 'Enter one of your recovery codes'
+                                        : 'Enter the code from your authenticator app'}
+                                </p>
+                            </div>
+
+                            <form onSubmit={twoFactorForm.handleSubmit(onSubmitTwoFactor)} className="space-y-6">
+                                <Input
+                                    label={useRecoveryCode ? 'Recovery Code' : 'Authentication Code'}
+                                    type="text"
+                                    inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                                    autoComplete="one-time-code"
+                                    autoFocus
+                                    placeholder={useRecoveryCode ? 'xxxx-xxxx' : '123456'}
+                                    error={twoFactorForm.formState.errors.code?.message}
+                                    {...twoFactorForm.register('code')}
+                                />
+
+                                <Button
+                                    type="submit"
+                                    className="w-full"
+                                    size="lg"
+                                    disabled={isLoading}
+                                >
+                                    {isLoading ? 'Verifying...' : 'Verify'}
+                                </Button>
+                            </form>
+
+                            <div className="mt-6 flex justify-between text-sm">
+                                <button
+                                    type="button"
+                                    onClick={handleBackToLogin}
+                                    className="text-gray-400 hover:text-white"
+                                >
+                                    Back to sign in
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={() => {
+                                        setUseRecoveryCode(!useRecoveryCode);
+                                        twoFactorForm.reset();
+                                    }}
+                                    className="text-primary-500 hover:underline"
+                                >
+                                    {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+                                </button>
+                            </div>
+                        </>
+                    ) : (
+                        <>
+                            <div className="flex flex-col items-center mb-8">
+                                <div className="w-16 h-16 bg-primary-600 rounded-full flex items-center justify-center mb-4">
+                                    <LogIn className="w-8 h-8 text-white" />
+                                </div>
+                                <h1 className="text-3xl font-bold text-white">Welcome Back</h1>
+                                <p className="text-gray-400 mt-2">Sign in to your CMS account</p>
+                            </div>
+
+                            <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+                                <Input
+                                    label="Username / Email"
+                                    type="text"
+                                    placeholder="Username / Email"
+                                    error={errors.identifier?.message}
+                                    {...register('identifier')}
+                                />
+
+                                <Input
+                                    label="Password"
+                                    type="password"
+                                    placeholder="••••••••"
+                                    error={errors.password?.message}
+                                    {...register('password')}
+                                />
+
+                                <Button
+                                    type="submit"
+                                    className="w-full"
+                                    size="lg"
+                                    disabled={isLoading}
+                                >
+                                    {isLoading ? 'Signing in...' : 'Sign In'}
+                                </Button>
+                            </form>
+
+                            {config.registrationEnabled && (
+                                <p className="mt-6 text-center text-sm text-gray-400">
+                                    Don&apos;t have an account?{' '}
+                                    <Link to="/register" className="text-primary-500 hover:underline">
+                                        Create one
+                                    </Link>
+                                </p>
+                            )}
 
-                    <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
-                        <Input
-                            label="Username / Email"
-                            type="text"
-                            placeholder="Username / Email"
-                            error={errors.identifier?.message}
-                            {...register('identifier')}
-                        />
-
-                        <Input
-                            label="Password"
-                            type="password"
-                            placeholder="••••••••"
-                            error={errors.password?.message}
-                            {...register('password')}
-                        />
-
-                        <Button
-                            type="submit"
-                            className="w-full"
-                            size="lg"
-                            disabled={isLoading}
-                        >
-                            {isLoading ? 'Signing in...' : 'Sign In'}
-                        </Button>
-                    </form>
+                            {config.mockApi && (
+                                <div className="mt-6 rounded-lg border border-gray-800 bg-gray-800/50 px-4 py-3 text-sm text-gray-400">
+                                    <p>
+                                        Running against the mock API. Sign in with{' '}
+                                        <span className="text-gray-200">{DEMO_CREDENTIALS.identifier}</span> /{' '}
+                                        <span className="text-gray-200">{DEMO_CREDENTIALS.password}</span>.
+                                    </p>
+                                    <button
+                                        type="button"
+                                        onClick={handleResetDemoData}
+                                        className="mt-2 text-primary-500 hover:underline"
+                                    >
+                                        Reset demo data
+                                    </button>
+                                </div>
+                            )}
+                        </>
+                    )}
 
                     <div className="mt-6 text-center text-sm text-gray-400">
                         Portfolio CMS &copy; {new Date().getFullYear()}
@@ -0,0 +1,174 @@
+import { useCallback, useMemo } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import {
+    addMonths,
+    eachDayOfInterval,
+    endOfMonth,
+    endOfWeek,
+    format,
+    isSameDay,
+    isSameMonth,
+    isToday,
+    isValid,
+    parse,
+    startOfMonth,
+    startOfWeek,
+} from 'date-fns';
+import { ArrowLeft, ChevronLeft, ChevronRight, Clock, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { projectsService } from '@/services/projects';
+import { useQuery } from '@/hooks/useQuery';
+import { useNow } from '@/hooks/useNow';
+import { listKey, queryKeys } from '@/lib/queryCache';
+import { getPublicationStatus } from '@/lib/publishing';
+import { cn } from '@/lib/utils';
+import type { ProjectListParams } from '@/types';
+
+const MONTH_PARAM_FORMAT = 'yyyy-MM';
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const parseMonth = (value: string | null) => {
+    const month = value ? parse(value, MONTH_PARAM_FORMAT, new Date()) : new Date();
+    return startOfMonth(isValid(month) ? month : new Date());
+};
+
+export default function ProjectCalendar() {
+    const navigate = useNavigate();
+    const now = useNow(60_000);
+    const [searchParams, setSearchParams] = useSearchParams();
+    const monthParam = searchParams.get('month');
+    const month = useMemo(() => parseMonth(monthParam), [monthParam]);
+
+    const days = useMemo(
+        () => eachDayOfInterval({ start: startOfWeek(month), end: endOfWeek(endOfMonth(month)) }),
+        [month]
+    );
+
+    const params = useMemo<ProjectListParams>(
+        () => ({
+            publishedFrom: days[0].toISOString(),
+            publishedTo: endOfWeek(endOfMonth(month)).toISOString(),
+            sort: 'publishedAt',
+            order: 'asc',
+        }),
+        [days, month]
+    );
+    const calendarKey = listKey(queryKeys.projects, params);
+    const fetchProjects = useCallback(
+        (signal?: AbortSignal) => projectsService.list(params, signal),
+        [params]
+    );
+    const { data: projectsPage, isLoading } = useQuery(calendarKey, fetchProjects, {
+        keepPreviousData: true,
+        errorMessage: 'Failed to load the publishing calendar',
+    });
+    const publications = (projectsPage?.items ?? []).flatMap(({ publishedAt, ...project }) =>
+        publishedAt
+            ? [{
+                project,
+                date: new Date(publishedAt),
+                isScheduled: getPublicationStatus(publishedAt, now) === 'scheduled',
+            }]
+            : []
+    );
+    const scheduledCount = publications.filter(
+        ({ date, isScheduled }) => isScheduled && isSameMonth(date, month)
+    ).length;
+
+    const showMonth = (next: Date) => {
+        const value = format(next, MONTH_PARAM_FORMAT);
+        setSearchParams(value === format(new Date(), MONTH_PARAM_FORMAT) ? {} : { month: value });
+    };
+
+    return (
+        <div>
+            <div className="mb-8">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-4">
+                    <div>
+                        <h1 className="text-3xl font-bold text-white">Publishing Calendar</h1>
+                        <p className="text-gray-400 mt-2">
+                            {scheduledCount > 0
+                                ? `${scheduledCount} ${scheduledCount === 1 ? 'project' : 'projects'} scheduled this month`
+                                : 'No projects scheduled this month'}
+                        </p>
+                    </div>
+                    <Button variant="outline" onClick={() => navigate('/projects')}>
+                        <ArrowLeft className="w-4 h-4" />
+                        Back to Projects
+                    </Button>
+                </div>
+                <div className="flex items-center gap-3">
+                    <Button variant="outline" size="icon" onClick={() => showMonth(addMonths(month, -1))} aria-label="Previous month">
+                        <ChevronLeft className="w-4 h-4" />
+                    </Button>
+                    <h2 className="min-w-40 text-center text-lg font-semibold text-white">{format(month, 'MMMM yyyy')}</h2>
+                    <Button variant="outline" size="icon" onClick={() => showMonth(addMonths(month, 1))} aria-label="Next month">
+                        <ChevronRight className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => showMonth(new Date())}>
+                        Today
+                    </Button>
+                    {isLoading && <Loader2 className="w-4 h-4 text-primary-500 animate-spin" />}
+                </div>
+            </div>
+
+            <div className="overflow-x-auto">
+                <div className="min-w-[700px] bg-gray-900 border border-gray-800 rounded-xl overflow-hidden">
+                    <div className="grid grid-cols-7 border-b border-gray-800">
+                        {WEEKDAYS.map((weekday) => (
+                            <div key={weekday} className="px-3 py-2 text-xs font-medium uppercase tracking-wide text-gray-500">
+                                {weekday}
+                            </div>
+                        ))}
+                    </div>
+                    <div className="grid grid-cols-7">
+                        {days.map((day) => {
+                            const dayPublications = publications.filter(({ date }) => isSameDay(date, day));
+
+                            return (
+                                <div
+                                    key={day.toISOString()}
+                                    className={cn(
+                                        'min-h-28 border-b border-r border-gray-800 p-2 [&:nth-child(7n)]:border-r-0',
+                                        !isSameMonth(day, month) && 'bg-gray-950/60'
+                                    )}
+                                >
+                                    <span
+                                        className={cn(
+                                            'inline-flex h-6 w-6 items-center justify-center rounded-full text-xs',
+                                            isToday(day)
+                                                ? 'bg-primary-600 font-semibold text-white'
+                                                : isSameMonth(day, month) ? 'text-gray-300' : 'text-gray-600'
+                                        )}
+                                    >
+                                        {format(day, 'd')}
+                                    </span>
+                                    <div className="mt-1 space-y-1">
+                                        {dayPublications.map(({ project, date, isScheduled }) => (
+                                            <Link
+                                                key={project.id}
+                                                to={`/projects?q=${encodeURIComponent(project.slug)}`}
+                                                title={`${project.title} · ${format(date, 'MMM d, h:mm a')}`}
+                                                className={cn(
+                                                    'flex items-center gap-1 truncate rounded px-1.5 py-1 text-xs transition-colors',
+                                                    isScheduled
+                                                        ? 'bg-primary-600/15 text-primary-300 hover:bg-primary-600/25'
+                                                        : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+                                                )}
+                                            >
+                                                {isScheduled && <Clock className="w-3 h-3 flex-shrink-0" />}
+                                                <span className="truncate">
+                                                    {format(date, 'HH:mm')} {project.title}
+                                                </span>
+                                            </Link>
+                                        ))}
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,20 +1,41 @@
-import { useState, useEffect } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import toast from 'react-hot-toast';
-import { Plus, Loader2, X } from 'lucide-react';
+import { Plus, Loader2, X, CalendarDays } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import Modal from '@/components/ui/Modal';
+import UploadProgress, { type UploadProgressState } from '@/components/ui/UploadProgress';
 import ConfirmDialog from '@/components/ui/ConfirmDialog';
+import EditConflict, { type ConflictField } from '@/components/ui/EditConflict';
+import RemoteChangeBadge from '@/components/ui/RemoteChangeBadge';
+import DraftBanner from '@/components/ui/DraftBanner';
+import Pagination from '@/components/ui/Pagination';
+import SortSelect from '@/components/ui/SortSelect';
+import { usePermission } from '@/hooks/usePermission';
+import { useAbortController } from '@/hooks/useAbortController';
+import { useAuthStore } from '@/store/authStore';
 import ProjectItem from '@/components/items/ProjectItem';
+import ProjectHistory from '@/components/projects/ProjectHistory';
 import RichTextEditor from '@/components/ui/RichTextEditor';
 import { projectsService } from '@/services/projects';
 import { skillsService } from '@/services/skills';
-import type { Project, Skill } from '@/types';
+import { useQuery } from '@/hooks/useQuery';
+import { useListParams } from '@/hooks/useListParams';
+import { createTempId, isTempId, listKey, queryCache, queryKeys } from '@/lib/queryCache';
+import { updateItems } from '@/lib/pagination';
+import type { Project, Paginated } from '@/types';
 import { format } from 'date-fns';
-import { compressImage } from '@/lib/imageCompression';
+import { compressImages } from '@/lib/imageCompression';
+import { registerUnsavedWork } from '@/lib/unsavedWork';
+import { drafts, type Draft } from '@/lib/drafts';
+import { applyServerErrors } from '@/lib/formErrors';
+import { OfflineQueuedError } from '@/lib/outbox';
+import { EditConflictError, type EditConflictState } from '@/lib/editConflict';
+import { isAbortError } from '@/lib/apiError';
 
 const projectSchema = z.object({
     title: z.string().min(1, 'Title is required'),
@@ -23,7 +44,10 @@ const projectSchema = z.object({
     content: z.string().min(1, 'Content is required'),
     coverImage: z.any().optional(),
     contentImages: z.any().optional(),
-    publishedAt: z.string().optional(),
+    publishedAt: z
+        .string()
+        .optional()
+        .refine((value) => !value || !Number.isNaN(Date.parse(value)), 'Enter a valid publish date'),
     published: z.boolean().optional(),
     highlighted: z.boolean().optional(),
     skillIds: z.array(z.string()).optional(),
@@ -31,18 +55,92 @@ const projectSchema = z.object({
 
 type ProjectFormData = z.infer<typeof projectSchema>;
 
+interface ProjectDraft {
+    values: Omit<ProjectFormData, 'coverImage' | 'contentImages'>;
+    coverFile: File | null;
+    coverPreview: string | null;
+    previewImages: string[];
+    previewFiles: File[];
+    // The version the draft was written against, so a restored draft still detects edits made since.
+    baseUpdatedAt: string | null;
+}
+
+const DRAFT_SAVE_DELAY_MS = 1_000;
+
+// Matches the value format of <input type="datetime-local">, in the browser's time zone.
+const PUBLISH_INPUT_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+const sortOptions = [
+    { value: 'createdAt:desc', label: 'Newest first' },
+    { value: 'createdAt:asc', label: 'Oldest first' },
+    { value: 'title:asc', label: 'Title (A-Z)' },
+];
+
+const toFormValues = (project: Project): ProjectFormData => ({
+    title: project.title,
+    slug: project.slug,
+    description: project.description,
+    content: project.content,
+    publishedAt: project.publishedAt ? format(new Date(project.publishedAt), PUBLISH_INPUT_FORMAT) : '',
+    published: project.publishedAt !== null,
+    highlighted: project.highlighted || false,
+    skillIds: project.projectSkills?.map((ps) => ps.skill.id) || [],
+});
+
+const toPlainText = (html: string) => new DOMParser().parseFromString(html, 'text/html').body.textContent || '—';
+
 export default function Projects() {
-    const [projects, setProjects] = useState<Project[]>([]);
-    const [skills, setSkills] = useState<Skill[]>([]);
-    const [isLoading, setIsLoading] = useState(true);
+    const canEdit = usePermission('content:write');
+    const navigate = useNavigate();
+    const userId = useAuthStore((state) => state.user?.id ?? null);
+    const createAbortController = useAbortController();
+    const { params, searchInput, setSearchInput, sortValue, setSort, setPage } = useListParams({
+        defaultSort: 'createdAt:desc',
+    });
+    const projectsKey = listKey(queryKeys.projects, params);
+    const fetchProjects = useCallback(
+        (signal?: AbortSignal) => projectsService.list(params, signal),
+        [params]
+    );
+    const { data: projectsPage, isLoading, isFetching } = useQuery(projectsKey, fetchProjects, {
+        keepPreviousData: true,
+        errorMessage: 'Failed to load projects',
+    });
+    const projects = projectsPage?.items ?? [];
+    const { data: skills = [] } = useQuery(queryKeys.skills, skillsService.getAll);
+    const formatSkills = (skillIds?: string[]) =>
+        skills.filter((skill) => skillIds?.includes(skill.id)).map((skill) => skill.name).join(', ') || '—';
+    const conflictFields: ConflictField<ProjectFormData>[] = [
+        { name: 'title', label: 'Title' },
+        { name: 'slug', label: 'Slug' },
+        { name: 'description', label: 'Description' },
+        { name: 'content', label: 'Content', format: (value) => toPlainText(String(value ?? '')) },
+        { name: 'published', label: 'Published', format: (value) => (value ? 'Yes' : 'No') },
+        {
+            name: 'publishedAt',
+            label: 'Publish Date',
+            format: (value) => (value ? format(new Date(String(value)), 'MMM d, yyyy h:mm a') : 'Immediately'),
+        },
+        { name: 'highlighted', label: 'Highlighted', format: (value) => (value ? 'Yes' : 'No') },
+        { name: 'skillIds', label: 'Skills', format: (value) => formatSkills(value as string[] | undefined) },
+    ];
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [editingProject, setEditingProject] = useState<Project | null>(null);
+    const [conflict, setConflict] = useState<EditConflictState<Project, ProjectFormData> | null>(null);
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [coverPreview, setCoverPreview] = useState<string | null>(null);
     const [previewImages, setPreviewImages] = useState<string[]>([]);
     const [previewFiles, setPreviewFiles] = useState<File[]>([]);
-    const [searchQuery, setSearchQuery] = useState('');
+    const [historyProject, setHistoryProject] = useState<Project | null>(null);
     const [confirmDialog, setConfirmDialog] = useState<{ open: boolean; projectId: string | null }>({ open: false, projectId: null });
+    const [uploadProgress, setUploadProgress] = useState<UploadProgressState | null>(null);
+    const uploadControllerRef = useRef<AbortController | null>(null);
+    const [pendingDraft, setPendingDraft] = useState<Draft<ProjectDraft> | null>(null);
+    const draftKeyRef = useRef<string | null>(null);
+    const draftTimerRef = useRef<number | undefined>(undefined);
+    const saveDraftRef = useRef<() => void>(() => undefined);
+    // Set by the user's own edits (and a restored draft), not by filling the form in on open.
+    const [hasUnsavedEdits, setHasUnsavedEdits] = useState(false);
 
     const {
         register,
@@ -51,6 +149,8 @@ export default function Projects() {
         control,
         formState: { errors },
         setValue,
+        getValues,
+        setError,
         watch,
     } = useForm<ProjectFormData>({
         resolver: zodResolver(projectSchema),
@@ -62,13 +162,35 @@ export default function Projects() {
         },
     });
 
-    const titleValue = watch('title');
-    const publishedValue = watch('published');
+    const submitRef = useRef<() => Promise<void>>(() => Promise.resolve());
 
-    useEffect(() => {
-        loadData();
+    const scheduleDraftSave = useCallback(() => {
+        setHasUnsavedEdits(true);
+        window.clearTimeout(draftTimerRef.current);
+        draftTimerRef.current = window.setTimeout(() => {
+            draftTimerRef.current = undefined;
+            saveDraftRef.current();
+        }, DRAFT_SAVE_DELAY_MS);
     }, []);
 
+    const flushDraftSave = () => {
+        if (draftTimerRef.current === undefined) return;
+        window.clearTimeout(draftTimerRef.current);
+        draftTimerRef.current = undefined;
+        saveDraftRef.current();
+    };
+
+    const clearDraft = () => {
+        window.clearTimeout(draftTimerRef.current);
+        draftTimerRef.current = undefined;
+        if (draftKeyRef.current) {
+            drafts.remove(draftKeyRef.current).catch(() => undefined);
+        }
+    };
+
+    const titleValue = watch('title');
+    const publishedValue = watch('published');
+
     useEffect(() => {
         if (titleValue && !editingProject) {
             const slug = titleValue
@@ -85,20 +207,18 @@ export default function Projects() {
         }
     }, [publishedValue, setValue]);
 
-    const loadData = async () => {
-        try {
-            const [projectsData, skillsData] = await Promise.all([
-                projectsService.getAll(),
-                skillsService.getAll(),
-            ]);
-            setProjects(projectsData);
-            setSkills(skillsData);
-        } catch (error) {
-            toast.error('Failed to load data');
-        } finally {
-            setIsLoading(false);
-        }
-    };
+    useEffect(() => {
+        if (!isModalOpen || !hasUnsavedEdits) return;
+        return registerUnsavedWork(() => submitRef.current());
+    }, [isModalOpen, hasUnsavedEdits]);
+
+    // Only edits made by the user count; values filled in by setValue or reset don't start a draft.
+    useEffect(() => {
+        const subscription = watch((_, { type }) => {
+            if (type === 'change') scheduleDraftSave();
+        });
+        return () => subscription.unsubscribe();
+    }, [watch, scheduleDraftSave]);
 
     const handleOpenModal = (project?: Project) => {
         if (project) {
@@ -107,8 +227,8 @@ export default function Projects() {
             setValue('slug', project.slug);
             setValue('description', project.description);
             setValue('content', project.content);
-            setValue('publishedAt', project.publishedAt ? format(new Date(project.publishedAt), 'yyyy-MM-dd') : '');
-            setValue('published', (project as any).published || false);
+            setValue('publishedAt', project.publishedAt ? format(new Date(project.publishedAt), PUBLISH_INPUT_FORMAT) : '');
+            setValue('published', project.publishedAt !== null);
             setValue('highlighted', project.highlighted || false);
             setValue('skillIds', project.projectSkills?.map(ps => ps.skill.id) || []);
             setCoverPreview(project.coverImage);
@@ -130,19 +250,64 @@ export default function Projects() {
             setPreviewImages([]);
             setPreviewFiles([]);
         }
+
+        const draftKey = `project:${userId ?? 'anonymous'}:${project?.id ?? 'new'}`;
+        draftKeyRef.current = draftKey;
+        setPendingDraft(null);
+        drafts
+            .get<ProjectDraft>(draftKey)
+            .then((draft) => {
+                if (draft && draftKeyRef.current === draftKey) setPendingDraft(draft);
+            })
+            .catch(() => undefined);
         setIsModalOpen(true);
     };
 
     const handleCloseModal = () => {
+        flushDraftSave();
+        draftKeyRef.current = null;
+        setPendingDraft(null);
+        setHasUnsavedEdits(false);
+        uploadControllerRef.current?.abort();
         setIsModalOpen(false);
         setEditingProject(null);
         reset();
         setCoverPreview(null);
         setPreviewImages([]);
         setPreviewFiles([]);
+        setConflict(null);
     };
 
-    const onSubmit = async (data: ProjectFormData) => {
+    // Resolves to whether the project was saved (or queued for when the connection is back).
+    const saveProject = async (data: ProjectFormData, target: Project | null): Promise<boolean> => {
+        const now = new Date().toISOString();
+        const tempId = createTempId();
+        const publishedAt = data.published
+            ? data.publishedAt ? new Date(data.publishedAt).toISOString() : now
+            : null;
+        const fields = {
+            title: data.title,
+            slug: data.slug,
+            description: data.description,
+            content: data.content,
+            coverImage: coverPreview,
+            contentImages: previewImages,
+            publishedAt,
+            highlighted: data.highlighted,
+            projectSkills: skills
+                .filter((skill) => data.skillIds?.includes(skill.id))
+                .map((skill) => ({ skill })),
+        };
+        const rollback = queryCache.optimistic<Paginated<Project>>(projectsKey, (previous) =>
+            updateItems(previous, (items) =>
+                target
+                    ? items.map((project) => (project.id === target.id ? { ...project, ...fields } : project))
+                    : [{ id: tempId, userId: '', createdAt: now, updatedAt: now, ...fields }, ...items]
+            )
+        );
+
+        const controller = createAbortController();
+        uploadControllerRef.current = controller;
         setIsSubmitting(true);
         try {
             const formData = new FormData();
@@ -154,8 +319,8 @@ export default function Projects() {
             formData.append('published', data.published ? 'true' : 'false');
             formData.append('highlighted', data.highlighted ? 'true' : 'false');
 
-            if (data.published) {
-                formData.append('publishedAt', new Date().toISOString());
+            if (publishedAt) {
+                formData.append('publishedAt', publishedAt);
             }
 
             if (data.skillIds && data.skillIds.length > 0) {
@@ -164,42 +329,167 @@ export default function Projects() {
                 });
             }
 
-            if (data.coverImage && data.coverImage[0]) {
-                const compressedCover = await compressImage(data.coverImage[0]);
-                formData.append('coverImage', compressedCover);
+            const coverFile: File | undefined = data.coverImage?.[0];
+            const imagesToCompress = coverFile ? [coverFile, ...previewFiles] : previewFiles;
+            if (imagesToCompress.length > 0) {
+                setUploadProgress({ stage: 'compressing', percent: 0 });
+                const compressed = await compressImages(imagesToCompress, {
+                    signal: controller.signal,
+                    onProgress: (percent) => setUploadProgress({ stage: 'compressing', percent }),
+                });
+
+                if (coverFile) {
+                    formData.append('coverImage', compressed[0]);
+                }
+                (coverFile ? compressed.slice(1) : compressed).forEach((file) => {
+                    formData.append('contentImages', file);
+                });
             }
 
-            if (editingProject) {
-                const existingImageCount = editingProject.contentImages?.length || 0;
+            if (target) {
+                const existingImageCount = target.contentImages?.length || 0;
                 const existingImagesToKeep = previewImages.slice(0, existingImageCount);
 
                 formData.append('existingContentImages', JSON.stringify(existingImagesToKeep));
             }
 
-            if (previewFiles.length > 0) {
-                for (const file of previewFiles) {
-                    const compressedFile = await compressImage(file);
-                    formData.append('contentImages', compressedFile);
-                }
-            }
+            const handleProgress = (percent: number) => setUploadProgress({ stage: 'uploading', percent });
+            setUploadProgress({ stage: 'uploading', percent: 0 });
 
-            if (editingProject) {
-                await projectsService.update(editingProject.id, formData);
+            if (target) {
+                const updated = await projectsService.update(target.id, formData, target.updatedAt, controller.signal, handleProgress);
+                queryCache.setData<Paginated<Project>>(projectsKey, (previous) =>
+                    updateItems(previous, (items) => items.map((project) => (project.id === updated.id ? updated : project)))
+                );
                 toast.success('Project updated successfully');
             } else {
-                await projectsService.create(formData);
+                const created = await projectsService.create(formData, controller.signal, handleProgress);
+                queryCache.setData<Paginated<Project>>(projectsKey, (previous) =>
+                    updateItems(previous, (items) =>
+                        items.map((project) => (project.id === tempId ? created : project))
+                    )
+                );
                 toast.success('Project created successfully');
             }
 
-            await loadData();
+            clearDraft();
             handleCloseModal();
+            return true;
         } catch (error) {
-            toast.error(error instanceof Error ? error.message : 'Operation failed');
+            if (error instanceof OfflineQueuedError) {
+                toast.success(error.message);
+                clearDraft();
+                handleCloseModal();
+                return true;
+            }
+            rollback();
+            if (isAbortError(error)) return false;
+            if (error instanceof EditConflictError && target) {
+                setConflict({ server: error.current, mine: data });
+                return false;
+            }
+            if (!applyServerErrors(error, setError, Object.keys(projectSchema.shape))) {
+                toast.error(error instanceof Error ? error.message : 'Operation failed');
+            }
+            return false;
         } finally {
+            uploadControllerRef.current = null;
+            setUploadProgress(null);
             setIsSubmitting(false);
         }
     };
 
+    const onSubmit = (data: ProjectFormData) => saveProject(data, editingProject);
+
+    const handleOverwrite = () => {
+        if (!conflict) return;
+        setConflict(null);
+        setEditingProject(conflict.server);
+        saveProject(conflict.mine, conflict.server);
+    };
+
+    const handleReload = () => {
+        if (!conflict) return;
+        setConflict(null);
+        handleOpenModal(conflict.server);
+    };
+
+    const handleMerge = (merged: ProjectFormData) => {
+        if (!conflict) return;
+        setConflict(null);
+        setEditingProject(conflict.server);
+        reset(merged);
+    };
+
+    const handleCancelUpload = () => {
+        uploadControllerRef.current?.abort();
+    };
+
+    submitRef.current = () =>
+        new Promise<void>((resolve, reject) => {
+            handleSubmit(
+                async (data) => {
+                    if (await onSubmit(data)) {
+                        resolve();
+                    } else {
+                        reject(new Error('Your project changes could not be saved.'));
+                    }
+                },
+                (errors) => {
+                    const [firstError] = Object.values(errors);
+                    reject(new Error(`Your project has invalid fields: ${firstError?.message ?? 'check the form'}.`));
+                }
+            )();
+        });
+
+    saveDraftRef.current = () => {
+        const draftKey = draftKeyRef.current;
+        // Hold off while a previous draft is waiting to be restored, so it isn't overwritten.
+        if (!draftKey || pendingDraft) return;
+
+        const values = getValues();
+        drafts
+            .save<ProjectDraft>(draftKey, {
+                values: {
+                    title: values.title,
+                    slug: values.slug,
+                    description: values.description,
+                    content: values.content,
+                    publishedAt: values.publishedAt,
+                    published: values.published,
+                    highlighted: values.highlighted,
+                    skillIds: values.skillIds,
+                },
+                coverFile: values.coverImage?.[0] ?? null,
+                coverPreview,
+                previewImages,
+                previewFiles,
+                baseUpdatedAt: editingProject?.updatedAt ?? null,
+            })
+            .catch(() => undefined);
+    };
+
+    const handleRestoreDraft = () => {
+        if (!pendingDraft) return;
+
+        const { values, coverFile, baseUpdatedAt } = pendingDraft.data;
+        reset({ ...values, coverImage: coverFile ? [coverFile] : undefined });
+        setCoverPreview(pendingDraft.data.coverPreview);
+        setPreviewImages(pendingDraft.data.previewImages);
+        setPreviewFiles(pendingDraft.data.previewFiles);
+        if (editingProject && baseUpdatedAt) {
+            setEditingProject({ ...editingProject, updatedAt: baseUpdatedAt });
+        }
+        setPendingDraft(null);
+        setHasUnsavedEdits(true);
+    };
+
+    const handleDiscardDraft = () => {
+        if (!pendingDraft) return;
+        drafts.remove(pendingDraft.key).catch(() => undefined);
+        setPendingDraft(null);
+    };
+
     const handleDelete = async (id: string) => {
         setConfirmDialog({ open: true, projectId: id });
     };
@@ -207,11 +497,23 @@ export default function Projects() {
     const confirmDelete = async () => {
         if (!confirmDialog.projectId) return;
 
+        const projectId = confirmDialog.projectId;
+        const rollback = queryCache.optimistic<Paginated<Project>>(projectsKey, (previous) =>
+            updateItems(previous, (items) =>
+                items.filter((project) => project.id !== projectId)
+            )
+        );
+
         try {
-            await projectsService.delete(confirmDialog.projectId);
+            await projectsService.delete(projectId, createAbortController().signal);
             toast.success('Project deleted successfully');
-            await loadData();
         } catch (error) {
+            if (error instanceof OfflineQueuedError) {
+                toast.success(error.message);
+                return;
+            }
+            rollback();
+            if (isAbortError(error)) return;
             toast.error('Failed to delete project');
         }
     };
@@ -219,9 +521,11 @@ export default function Projects() {
     const handleCoverChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
         if (file) {
+            setValue('coverImage', e.target.files);
             const reader = new FileReader();
             reader.onloadend = () => {
                 setCoverPreview(reader.result as string);
+                scheduleDraftSave();
             };
             reader.readAsDataURL(file);
         }
@@ -245,6 +549,7 @@ export default function Projects() {
             });
         }
         setPreviewImages(prev => [...prev, ...newPreviews]);
+        scheduleDraftSave();
     };
 
     const handleRemovePreviewImage = (index: number) => {
@@ -257,6 +562,7 @@ export default function Projects() {
             setPreviewImages(prev => prev.filter((_, i) => i !== index));
             setPreviewFiles(prev => prev.filter((_, i) => i !== newFileIndex));
         }
+        scheduleDraftSave();
     };
 
     if (isLoading) {
@@ -275,46 +581,61 @@ export default function Projects() {
                         <h1 className="text-3xl font-bold text-white">Projects</h1>
                         <p className="text-gray-400 mt-2">Manage your portfolio projects</p>
                     </div>
-                    <Button onClick={() => handleOpenModal()}>
-                        <Plus className="w-4 h-4" />
-                        <span className="hidden sm:inline">Add Project</span>
-                    </Button>
+                    <div className="flex gap-3">
+                        <Button variant="outline" onClick={() => navigate('/projects/calendar')}>
+                            <CalendarDays className="w-4 h-4" />
+                            <span className="hidden sm:inline">Calendar</span>
+                        </Button>
+                        {canEdit && (
+                            <Button onClick={() => handleOpenModal()}>
+                                <Plus className="w-4 h-4" />
+                                <span className="hidden sm:inline">Add Project</span>
+                            </Button>
+                        )}
+                    </div>
+                </div>
+                <div className="flex gap-3">
+                    <Input
+                        type="search"
+                        placeholder="Search projects..."
+                        value={searchInput}
+                        onChange={(e) => setSearchInput(e.target.value)}
+                        className="w-full"
+                    />
+                    <SortSelect value={sortValue} options={sortOptions} onChange={setSort} />
                 </div>
-                <Input
-                    type="search"
-                    placeholder="Search projects..."
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                    className="w-full"
-                />
             </div>
 
-            {(() => {
-                const filteredProjects = projects.filter(project =>
-                    project.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                    project.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                    project.projectSkills?.some(ps => ps.skill.name.toLowerCase().includes(searchQuery.toLowerCase()))
-                );
-
-                return filteredProjects.length === 0 ? (
-                    <div className="text-center py-12 bg-gray-900 border border-gray-800 rounded-xl">
-                        <p className="text-gray-400">
-                            {searchQuery ? 'No projects found matching your search.' : 'No projects yet. Create your first project to get started.'}
-                        </p>
-                    </div>
-                ) : (
-                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                        {filteredProjects.map((project) => (
-                            <ProjectItem
-                                key={project.id}
-                                project={project}
-                                onEdit={handleOpenModal}
-                                onDelete={handleDelete}
-                            />
-                        ))}
-                    </div>
-                );
-            })()}
+            {projects.length === 0 ? (
+                <div className="text-center py-12 bg-gray-900 border border-gray-800 rounded-xl">
+                    <p className="text-gray-400">
+                        {params.q ? 'No projects found matching your search.' : 'No projects yet. Create your first project to get started.'}
+                    </p>
+                </div>
+            ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                    {projects.map((project) => (
+                        <ProjectItem
+                            key={project.id}
+                            project={project}
+                            onEdit={handleOpenModal}
+                            onDelete={handleDelete}
+                            onShowHistory={isTempId(project.id) ? undefined : setHistoryProject}
+                            readOnly={!canEdit || isTempId(project.id)}
+                        />
+                    ))}
+                </div>
+            )}
+
+            {projectsPage && (
+                <Pagination
+                    page={projectsPage.page}
+                    totalPages={projectsPage.totalPages}
+                    total={projectsPage.total}
+                    onPageChange={setPage}
+                    disabled={isFetching}
+                />
+            )}
 
             <Modal
                 open={isModalOpen}
@@ -323,202 +644,250 @@ export default function Projects() {
                 description={editingProject ? 'Update project information' : 'Create a new project'}
                 disabled={isSubmitting}
             >
-                <form onSubmit={handleSubmit(onSubmit)} className="space-y-4 max-h-[70vh] overflow-y-auto px-1 pr-3">
-                    <Input
-                        label="Title"
-                        placeholder="e.g., E-Commerce Platform"
-                        disabled={isSubmitting}
-                        error={errors.title?.message}
-                        {...register('title')}
-                    />
-
-                    <Input
-                        label="Slug"
-                        placeholder="e-commerce-platform"
-                        disabled={isSubmitting}
-                        error={errors.slug?.message}
-                        {...register('slug')}
+                {!conflict && <RemoteChangeBadge resource={queryKeys.projects} item={editingProject} />}
+                {pendingDraft && !conflict && (
+                    <DraftBanner
+                        savedAt={pendingDraft.savedAt}
+                        isOutdated={
+                            editingProject !== null &&
+                            pendingDraft.data.baseUpdatedAt !== null &&
+                            Date.parse(editingProject.updatedAt) > Date.parse(pendingDraft.data.baseUpdatedAt)
+                        }
+                        onRestore={handleRestoreDraft}
+                        onDiscard={handleDiscardDraft}
                     />
-
-                    <Input
-                        label="Description"
-                        placeholder="Brief description of the project"
-                        disabled={isSubmitting}
-                        error={errors.description?.message}
-                        {...register('description')}
+                )}
+                {conflict ? (
+                    <EditConflict
+                        fields={conflictFields}
+                        mine={conflict.mine}
+                        theirs={toFormValues(conflict.server)}
+                        onOverwrite={handleOverwrite}
+                        onReload={handleReload}
+                        onMerge={handleMerge}
                     />
-
-                    <div>
-                        <label className="block text-sm font-medium text-gray-300 mb-1.5">
-                            Content
-                        </label>
-                        <Controller
-                            name="content"
-                            control={control}
-                            render={({ field }) => (
-                                <RichTextEditor
-                                    content={field.value}
-                                    onChange={field.onChange}
-                                    placeholder="Write your project content..."
-                                />
-                            )}
-                        />
-                        {errors.content && (
-                            <p className="mt-1.5 text-sm text-red-500">{errors.content.message}</p>
-                        )}
-                    </div>
-
-                    <div>
-                        <label className="block text-sm font-medium text-gray-300 mb-1.5">
-                            Cover Image
-                        </label>
-                        <input
-                            type="file"
-                            accept="image/*"
+                ) : (
+                    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4 max-h-[70vh] overflow-y-auto px-1 pr-3">
+                        <Input
+                            label="Title"
+                            placeholder="e.g., E-Commerce Platform"
                             disabled={isSubmitting}
-                            className="block w-full text-sm text-gray-400 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-primary-600 file:text-white hover:file:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
-                            {...register('coverImage')}
-                            onChange={handleCoverChange}
+                            error={errors.title?.message}
+                            {...register('title')}
                         />
-                        {coverPreview && (
-                            <div className="mt-3">
-                                <img
-                                    src={coverPreview}
-                                    alt="Preview"
-                                    className="w-full h-32 object-cover rounded border border-gray-700"
-                                />
-                            </div>
-                        )}
-                    </div>
 
-                    <div>
-                        <label className="block text-sm font-medium text-gray-300 mb-1.5">
-                            Previews
-                        </label>
-                        <input
-                            type="file"
-                            accept="image/*"
-                            multiple
+                        <Input
+                            label="Slug"
+                            placeholder="e-commerce-platform"
                             disabled={isSubmitting}
-                            className="block w-full text-sm text-gray-400 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-primary-600 file:text-white hover:file:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
-                            onChange={handlePreviewImagesChange}
+                            error={errors.slug?.message}
+                            {...register('slug')}
                         />
-                        <p className="text-xs text-gray-500 mt-1">
-                            Upload multiple images to showcase your project. Images will be compressed automatically.
-                        </p>
-                        {previewImages.length > 0 && (
-                            <div className="mt-3 grid grid-cols-3 gap-2">
-                                {previewImages.map((preview, index) => (
-                                    <div key={index} className="relative group">
-                                        <img
-                                            src={preview}
-                                            alt={`Preview ${index + 1}`}
-                                            className="w-full h-24 object-cover rounded border border-gray-700"
-                                        />
-                                        <button
-                                            type="button"
-                                            onClick={() => handleRemovePreviewImage(index)}
-                                            disabled={isSubmitting}
-                                            className="absolute top-1 right-1 bg-red-600 hover:bg-red-700 text-white rounded-full p-1 opacity-0 group-hover:opacity-100 transition-opacity disabled:opacity-50"
-                                        >
-                                            <X className="w-3 h-3" />
-                                        </button>
-                                    </div>
-                                ))}
-                            </div>
-                        )}
-                    </div>
 
-                    <div className="flex items-center gap-2">
-                        <input
-                            type="checkbox"
-                            id="published"
+                        <Input
+                            label="Description"
+                            placeholder="Brief description of the project"
                             disabled={isSubmitting}
-                            {...register('published')}
-                            className="w-4 h-4 text-primary-600 bg-gray-800 border-gray-700 rounded focus:ring-primary-500 focus:ring-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                            error={errors.description?.message}
+                            {...register('description')}
                         />
-                        <label htmlFor="published" className="text-sm font-medium text-gray-300">
-                            Mark as Published
-                        </label>
-                    </div>
-
-                    <div className="flex items-center gap-2">
-                        <input
-                            type="checkbox"
-                            id="highlighted"
-                            disabled={isSubmitting || !publishedValue}
-                            {...register('highlighted')}
-                            className="w-4 h-4 text-primary-600 bg-gray-800 border-gray-700 rounded focus:ring-primary-500 focus:ring-2 disabled:opacity-50 disabled:cursor-not-allowed"
-                        />
-                        <label htmlFor="highlighted" className="text-sm font-medium text-gray-300">
-                            Mark as Highlighted
-                        </label>
-                    </div>
 
-                    <div>
-                        <label className="block text-sm font-medium text-gray-300 mb-1.5">
-                            Skills
-                        </label>
-                        <Controller
-                            name="skillIds"
-                            control={control}
-                            render={({ field }) => (
-                                <div className="flex flex-wrap gap-2">
-                                    {skills.map((skill) => {
-                                        const isSelected = field.value?.includes(skill.id);
-                                        return (
+                        <div>
+                            <label className="block text-sm font-medium text-gray-300 mb-1.5">
+                                Content
+                            </label>
+                            <Controller
+                                name="content"
+                                control={control}
+                                render={({ field }) => (
+                                    <RichTextEditor
+                                        content={field.value}
+                                        onChange={field.onChange}
+                                        placeholder="Write your project content..."
+                                    />
+                                )}
+                            />
+                            {errors.content && (
+                                <p className="mt-1.5 text-sm text-red-500">{errors.content.message}</p>
+                            )}
+                        </div>
+
+                        <div>
+                            <label className="block text-sm font-medium text-gray-300 mb-1.5">
+                                Cover Image
+                            </label>
+                            <input
+                                type="file"
+                                accept="image/*"
+                                disabled={isSubmitting}
+                                className="block w-full text-sm text-gray-400 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-primary-600 file:text-white hover:file:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                                {...register('coverImage')}
+                                onChange={handleCoverChange}
+                            />
+                            {coverPreview && (
+                                <div className="mt-3">
+                                    <img
+                                        src={coverPreview}
+                                        alt="Preview"
+                                        className="w-full h-32 object-cover rounded border border-gray-700"
+                                    />
+                                </div>
+                            )}
+                        </div>
+
+                        <div>
+                            <label className="block text-sm font-medium text-gray-300 mb-1.5">
+                                Previews
+                            </label>
+                            <input
+                                type="file"
+                                accept="image/*"
+                                multiple
+                                disabled={isSubmitting}
+                                className="block w-full text-sm text-gray-400 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-primary-600 file:text-white hover:file:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                                onChange={handlePreviewImagesChange}
+                            />
+                            <p className="text-xs text-gray-500 mt-1">
+                                Upload multiple images to showcase your project. Images will be compressed automatically.
+                            </p>
+                            {previewImages.length > 0 && (
+                                <div className="mt-3 grid grid-cols-3 gap-2">
+                                    {previewImages.map((preview, index) => (
+                                        <div key={index} className="relative group">
+                                            <img
+                                                src={preview}
+                                                alt={`Preview ${index + 1}`}
+                                                className="w-full h-24 object-cover rounded border border-gray-700"
+                                            />
                                             <button
-                                                key={skill.id}
                                                 type="button"
+                                                onClick={() => handleRemovePreviewImage(index)}
                                                 disabled={isSubmitting}
-                                                onClick={() => {
-                                                    const newValue = isSelected
-                                                        ? (field.value || []).filter(id => id !== skill.id)
-                                                        : [...(field.value || []), skill.id];
-                                                    field.onChange(newValue);
-                                                }}
-                                                className={`
-                                                    px-4 py-2 rounded-full text-sm font-medium transition-all
-                                                    ${isSelected
-                                                        ? 'bg-primary-600 text-white border-2 border-primary-600 shadow-lg shadow-primary-600/30'
-                                                        : 'bg-gray-800 text-gray-300 border-2 border-gray-700 hover:border-gray-600 hover:bg-gray-750'
-                                                    }
-                                                    disabled:opacity-50 disabled:cursor-not-allowed
-                                                `}
+                                                className="absolute top-1 right-1 bg-red-600 hover:bg-red-700 text-white rounded-full p-1 opacity-0 group-hover:opacity-100 transition-opacity disabled:opacity-50"
                                             >
-                                                {skill.name}
+                                                <X className="w-3 h-3" />
                                             </button>
-                                        );
-                                    })}
+                                        </div>
+                                    ))}
                                 </div>
                             )}
-                        />
-                    </div>
+                        </div>
+
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="checkbox"
+                                id="published"
+                                disabled={isSubmitting}
+                                {...register('published')}
+                                className="w-4 h-4 text-primary-600 bg-gray-800 border-gray-700 rounded focus:ring-primary-500 focus:ring-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                            />
+                            <label htmlFor="published" className="text-sm font-medium text-gray-300">
+                                Mark as Published
+                            </label>
+                        </div>
+
+                        {publishedValue && (
+                            <div>
+                                <Input
+                                    type="datetime-local"
+                                    label="Publish Date"
+                                    disabled={isSubmitting}
+                                    error={errors.publishedAt?.message}
+                                    {...register('publishedAt')}
+                                />
+                                <p className="mt-1 text-xs text-gray-500">
+                                    Leave empty to publish right away. A future date schedules the project, and it
+                                    stays hidden on the public site until then.
+                                </p>
+                            </div>
+                        )}
 
-                    <div className="flex gap-3 pt-4 sticky bottom-0 bg-gray-900 pb-2">
-                        <Button
-                            type="button"
-                            variant="outline"
-                            onClick={handleCloseModal}
-                            disabled={isSubmitting}
-                            className="flex-1"
-                        >
-                            Cancel
-                        </Button>
-                        <Button type="submit" disabled={isSubmitting} className="flex-1">
-                            {isSubmitting ? (
-                                <>
-                                    <Loader2 className="w-4 h-4 animate-spin" />
-                                    {editingProject ? 'Updating...' : 'Creating...'}
-                                </>
-                            ) : (
-                                <>{editingProject ? 'Update' : 'Create'}</>
-                            )}
-                        </Button>
-                    </div>
-                </form>
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="checkbox"
+                                id="highlighted"
+                                disabled={isSubmitting || !publishedValue}
+                                {...register('highlighted')}
+                                className="w-4 h-4 text-primary-600 bg-gray-800 border-gray-700 rounded focus:ring-primary-500 focus:ring-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                            />
+                            <label htmlFor="highlighted" className="text-sm font-medium text-gray-300">
+                                Mark as Highlighted
+                            </label>
+                        </div>
+
+                        <div>
+                            <label className="block text-sm font-medium text-gray-300 mb-1.5">
+                                Skills
+                            </label>
+                            <Controller
+                                name="skillIds"
+                                control={control}
+                                render={({ field }) => (
+                                    <div className="flex flex-wrap gap-2">
+                                        {skills.map((skill) => {
+                                            const isSelected = field.value?.includes(skill.id);
+                                            return (
+                                                <button
+                                                    key={skill.id}
+                                                    type="button"
+                                                    disabled={isSubmitting}
+                                                    onClick={() => {
+                                                        const newValue = isSelected
+                                                            ? (field.value || []).filter(id => id !== skill.id)
+                                                            : [...(field.value || []), skill.id];
+                                                        field.onChange(newValue);
+                                                    }}
+                                                    className={`
+                                                        px-4 py-2 rounded-full text-sm font-medium transition-all
+                                                        ${isSelected
+                                                            ? 'bg-primary-600 text-white border-2 border-primary-600 shadow-lg shadow-primary-600/30'
+                                                            : 'bg-gray-800 text-gray-300 border-2 border-gray-700 hover:border-gray-600 hover:bg-gray-750'
+                                                        }
+                                                        disabled:opacity-50 disabled:cursor-not-allowed
+                                                    `}
+                                                >
+                                                    {skill.name}
+                                                </button>
+                                            );
+                                        })}
+                                    </div>
+                                )}
+                            />
+                        </div>
+
+                        <div className="sticky bottom-0 bg-gray-900 pt-4 pb-2 space-y-3">
+                            {uploadProgress && <UploadProgress {...uploadProgress} />}
+                            <div className="flex gap-3">
+                                <Button
+                                    type="button"
+                                    variant="outline"
+                                    onClick={isSubmitting ? handleCancelUpload : handleCloseModal}
+                                    className="flex-1"
+                                >
+                                    {isSubmitting ? 'Cancel Upload' : 'Cancel'}
+                                </Button>
+                                <Button type="submit" disabled={isSubmitting} className="flex-1">
+                                    {isSubmitting ? (
+                                        <>
+                                            <Loader2 className="w-4 h-4 animate-spin" />
+                                            {editingProject ? 'Updating...' : 'Creating...'}
+                                        </>
+                                    ) : (
+                                        <>{editingProject ? 'Update' : 'Create'}</>
+                                    )}
+                                </Button>
+                            </div>
+                        </div>
+                    </form>
+                )}
             </Modal>
 
+            <ProjectHistory
+                project={historyProject}
+                onClose={() => setHistoryProject(null)}
+                canRestore={canEdit}
+            />
+
             <ConfirmDialog
                 open={confirmDialog.open}
                 onClose={() => setConfirmDialog({ open: false, projectId: null })}
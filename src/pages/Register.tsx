@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import toast from 'react-hot-toast';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { authService } from '@/services/auth';
+import { useAuthStore } from '@/store/authStore';
+import { passwordSchema, usernameSchema } from '@/lib/validation';
+import { applyServerErrors } from '@/lib/formErrors';
+import { UserPlus } from 'lucide-react';
+
+const registerSchema = z
+    .object({
+        name: z.string().min(1, 'Name is required'),
+        email: z.string().email('Invalid email address'),
+        username: usernameSchema,
+        password: passwordSchema,
+        confirmPassword: z.string().min(1, 'Please confirm your password'),
+    })
+    .refine((data) => data.password === data.confirmPassword, {
+        message: 'Passwords do not match',
+        path: ['confirmPassword'],
+    });
+
+type RegisterFormData = z.infer<typeof registerSchema>;
+
+export default function Register() {
+    const navigate = useNavigate();
+    const setUser = useAuthStore((state) => state.setUser);
+    const [isLoading, setIsLoading] = useState(false);
+
+    const {
+        register,
+        handleSubmit,
+        setError,
+        formState: { errors },
+    } = useForm<RegisterFormData>({
+        resolver: zodResolver(registerSchema),
+    });
+
+    const onSubmit = async (data: RegisterFormData) => {
+        setIsLoading(true);
+        try {
+            const { user } = await authService.register({
+                name: data.name,
+                email: data.email,
+                username: data.username,
+                password: data.password,
+            });
+            setUser(user);
+            toast.success('Account created successfully!');
+            navigate('/');
+        } catch (error) {
+            if (!applyServerErrors(error, setError, Object.keys(registerSchema.shape))) {
+                toast.error(error instanceof Error ? error.message : 'Registration failed', {
+                    duration: 4000,
+                });
+            }
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-gray-900 via-gray-950 to-black p-4">
+            <div className="w-full max-w-md">
+                <div className="bg-gray-900/50 backdrop-blur-xl border border-gray-800 rounded-2xl shadow-2xl p-8">
+                    <div className="flex flex-col items-center mb-8">
+                        <div className="w-16 h-16 bg-primary-600 rounded-full flex items-center justify-center mb-4">
+                            <UserPlus className="w-8 h-8 text-white" />
+                        </div>
+                        <h1 className="text-3xl font-bold text-white">Create Account</h1>
+                        <p className="text-gray-400 mt-2">Sign up for a CMS account</p>
+                    </div>
+
+                    <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+                        <Input
+                            label="Name"
+                            type="text"
+                            placeholder="John Doe"
+                            error={errors.name?.message}
+                            {...register('name')}
+                        />
+
+                        <Input
+                            label="Email"
+                            type="email"
+                            placeholder="you@example.com"
+                            error={errors.email?.message}
+                            {...register('email')}
+                        />
+
+                        <Input
+                            label="Username"
+                            type="text"
+                            placeholder="Username"
+                            error={errors.username?.message}
+                            {...register('username')}
+                        />
+
+                        <Input
+                            label="Password"
+                            type="password"
+                            placeholder="••••••••"
+                            error={errors.password?.message}
+                            {...register('password')}
+                        />
+
+                        <Input
+                            label="Confirm Password"
+                            type="password"
+                            placeholder="••••••••"
+                            error={errors.confirmPassword?.message}
+                            {...register('confirmPassword')}
+                        />
+
+                        <Button
+                            type="submit"
+                            className="w-full"
+                            size="lg"
+                            disabled={isLoading}
+                        >
+                            {isLoading ? 'Creating account...' : 'Create Account'}
+                        </Button>
+                    </form>
+
+                    <p className="mt-6 text-center text-sm text-gray-400">
+                        Already have an account?{' '}
+                        <Link to="/login" className="text-primary-500 hover:underline">
+                            Sign in
+                        </Link>
+                    </p>
+
+                    <div className="mt-6 text-center text-sm text-gray-400">
+                        Portfolio CMS &copy; {new Date().getFullYear()}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useCallback, useRef, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -7,11 +7,26 @@ import { Plus, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import Modal from '@/components/ui/Modal';
+import UploadProgress, { type UploadProgressState } from '@/components/ui/UploadProgress';
 import ConfirmDialog from '@/components/ui/ConfirmDialog';
+import EditConflict, { type ConflictField } from '@/components/ui/EditConflict';
+import RemoteChangeBadge from '@/components/ui/RemoteChangeBadge';
+import Pagination from '@/components/ui/Pagination';
+import SortSelect from '@/components/ui/SortSelect';
+import { usePermission } from '@/hooks/usePermission';
+import { useAbortController } from '@/hooks/useAbortController';
 import { skillsService } from '@/services/skills';
-import type { Skill } from '@/types';
+import { useQuery } from '@/hooks/useQuery';
+import { useListParams } from '@/hooks/useListParams';
+import { createTempId, isTempId, listKey, queryCache, queryKeys } from '@/lib/queryCache';
+import { updateItems } from '@/lib/pagination';
+import type { Skill, Paginated } from '@/types';
 import { compressImage } from '@/lib/imageCompression';
 import SkillItem from '@/components/items/SkillItem';
+import { applyServerErrors } from '@/lib/formErrors';
+import { OfflineQueuedError } from '@/lib/outbox';
+import { EditConflictError, type EditConflictState } from '@/lib/editConflict';
+import { isAbortError } from '@/lib/apiError';
 
 const skillSchema = z.object({
     name: z.string().min(1, 'Skill name is required'),
@@ -20,15 +35,41 @@ const skillSchema = z.object({
 
 type SkillFormData = z.infer<typeof skillSchema>;
 
+const sortOptions = [
+    { value: 'name:asc', label: 'Name (A-Z)' },
+    { value: 'name:desc', label: 'Name (Z-A)' },
+    { value: 'createdAt:desc', label: 'Recently added' },
+];
+
+const toFormValues = (skill: Skill): SkillFormData => ({ name: skill.name, icon: undefined });
+
+const conflictFields: ConflictField<SkillFormData>[] = [{ name: 'name', label: 'Skill Name' }];
+
 export default function Skills() {
-    const [skills, setSkills] = useState<Skill[]>([]);
-    const [isLoading, setIsLoading] = useState(true);
+    const canEdit = usePermission('content:write');
+    const createAbortController = useAbortController();
+    const { params, searchInput, setSearchInput, sortValue, setSort, setPage } = useListParams({
+        pageSize: 20,
+        defaultSort: 'name:asc',
+    });
+    const skillsKey = listKey(queryKeys.skills, params);
+    const fetchSkills = useCallback(
+        (signal?: AbortSignal) => skillsService.list(params, signal),
+        [params]
+    );
+    const { data: skillsPage, isLoading, isFetching } = useQuery(skillsKey, fetchSkills, {
+        keepPreviousData: true,
+        errorMessage: 'Failed to load skills',
+    });
+    const skills = skillsPage?.items ?? [];
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [editingSkill, setEditingSkill] = useState<Skill | null>(null);
+    const [conflict, setConflict] = useState<EditConflictState<Skill, SkillFormData> | null>(null);
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [iconPreview, setIconPreview] = useState<string | null>(null);
-    const [searchQuery, setSearchQuery] = useState('');
     const [confirmDialog, setConfirmDialog] = useState<{ open: boolean; skillId: string | null }>({ open: false, skillId: null });
+    const [uploadProgress, setUploadProgress] = useState<UploadProgressState | null>(null);
+    const uploadControllerRef = useRef<AbortController | null>(null);
 
     const {
         register,
@@ -36,25 +77,11 @@ export default function Skills() {
         reset,
         formState: { errors },
         setValue,
+        setError,
     } = useForm<SkillFormData>({
         resolver: zodResolver(skillSchema),
     });
 
-    useEffect(() => {
-        loadSkills();
-    }, []);
-
-    const loadSkills = async () => {
-        try {
-            const data = await skillsService.getAll();
-            setSkills(data);
-        } catch (error) {
-            toast.error('Failed to load skills');
-        } finally {
-            setIsLoading(false);
-        }
-    };
-
     const handleOpenModal = (skill?: Skill) => {
         if (skill) {
             setEditingSkill(skill);
@@ -69,43 +96,118 @@ export default function Skills() {
     };
 
     const handleCloseModal = () => {
+        uploadControllerRef.current?.abort();
         setIsModalOpen(false);
         setEditingSkill(null);
         reset();
         setIconPreview(null);
+        setConflict(null);
     };
 
-    const onSubmit = async (data: SkillFormData) => {
+    const saveSkill = async (data: SkillFormData, target: Skill | null) => {
+        const iconFile = data.icon?.[0];
+        if (!iconFile && !target) {
+            toast.error('Icon is required for new skills');
+            return;
+        }
+
+        const now = new Date().toISOString();
+        const tempId = createTempId();
+        const optimisticSkill: Skill = target
+            ? { ...target, name: data.name, icon: iconPreview ?? target.icon }
+            : { id: tempId, userId: '', name: data.name, icon: iconPreview ?? '', createdAt: now, updatedAt: now };
+        const rollback = queryCache.optimistic<Paginated<Skill>>(skillsKey, (previous) =>
+            updateItems(previous, (items) =>
+                target
+                    ? items.map((skill) => (skill.id === target.id ? optimisticSkill : skill))
+                    : [optimisticSkill, ...items]
+            )
+        );
+
+        const controller = createAbortController();
+        uploadControllerRef.current = controller;
         setIsSubmitting(true);
         try {
             const formData = new FormData();
             formData.append('name', data.name);
 
-            if (data.icon && data.icon[0]) {
-                const compressedIcon = await compressImage(data.icon[0]);
+            if (iconFile) {
+                setUploadProgress({ stage: 'compressing', percent: 0 });
+                const compressedIcon = await compressImage(iconFile, {
+                    signal: controller.signal,
+                    onProgress: (percent) => setUploadProgress({ stage: 'compressing', percent }),
+                });
                 formData.append('icon', compressedIcon);
-            } else if (!editingSkill) {
-                toast.error('Icon is required for new skills');
-                return;
             }
 
-            if (editingSkill) {
-                await skillsService.update(editingSkill.id, formData);
+            const handleProgress = (percent: number) => setUploadProgress({ stage: 'uploading', percent });
+            setUploadProgress({ stage: 'uploading', percent: 0 });
+
+            if (target) {
+                const updated = await skillsService.update(target.id, formData, target.updatedAt, controller.signal, handleProgress);
+                queryCache.setData<Paginated<Skill>>(skillsKey, (previous) =>
+                    updateItems(previous, (items) => items.map((skill) => (skill.id === updated.id ? updated : skill)))
+                );
                 toast.success('Skill updated successfully');
             } else {
-                await skillsService.create(formData);
+                const created = await skillsService.create(formData, controller.signal, handleProgress);
+                queryCache.setData<Paginated<Skill>>(skillsKey, (previous) =>
+                    updateItems(previous, (items) =>
+                        items.map((skill) => (skill.id === tempId ? created : skill))
+                    )
+                );
                 toast.success('Skill created successfully');
             }
 
-            await loadSkills();
             handleCloseModal();
         } catch (error) {
-            toast.error(error instanceof Error ? error.message : 'Operation failed');
+            if (error instanceof OfflineQueuedError) {
+                toast.success(error.message);
+                handleCloseModal();
+                return;
+            }
+            rollback();
+            if (isAbortError(error)) return;
+            if (error instanceof EditConflictError && target) {
+                setConflict({ server: error.current, mine: data });
+                return;
+            }
+            if (!applyServerErrors(error, setError, Object.keys(skillSchema.shape))) {
+                toast.error(error instanceof Error ? error.message : 'Operation failed');
+            }
         } finally {
+            uploadControllerRef.current = null;
+            setUploadProgress(null);
             setIsSubmitting(false);
         }
     };
 
+    const onSubmit = (data: SkillFormData) => saveSkill(data, editingSkill);
+
+    const handleOverwrite = () => {
+        if (!conflict) return;
+        setConflict(null);
+        setEditingSkill(conflict.server);
+        saveSkill(conflict.mine, conflict.server);
+    };
+
+    const handleReload = () => {
+        if (!conflict) return;
+        setConflict(null);
+        handleOpenModal(conflict.server);
+    };
+
+    const handleMerge = (merged: SkillFormData) => {
+        if (!conflict) return;
+        setConflict(null);
+        setEditingSkill(conflict.server);
+        reset(merged);
+    };
+
+    const handleCancelUpload = () => {
+        uploadControllerRef.current?.abort();
+    };
+
     const handleDelete = async (id: string) => {
         setConfirmDialog({ open: true, skillId: id });
     };
@@ -113,11 +215,23 @@ export default function Skills() {
     const confirmDelete = async () => {
         if (!confirmDialog.skillId) return;
 
+        const skillId = confirmDialog.skillId;
+        const rollback = queryCache.optimistic<Paginated<Skill>>(skillsKey, (previous) =>
+            updateItems(previous, (items) =>
+                items.filter((skill) => skill.id !== skillId)
+            )
+        );
+
         try {
-            await skillsService.delete(confirmDialog.skillId);
+            await skillsService.delete(skillId, createAbortController().signal);
             toast.success('Skill deleted successfully');
-            await loadSkills();
         } catch (error) {
+            if (error instanceof OfflineQueuedError) {
+                toast.success(error.message);
+                return;
+            }
+            rollback();
+            if (isAbortError(error)) return;
             toast.error('Failed to delete skill');
         }
     };
@@ -149,44 +263,54 @@ export default function Skills() {
                         <h1 className="text-3xl font-bold text-white">Skills</h1>
                         <p className="text-gray-400 mt-2">Manage your skills library</p>
                     </div>
-                    <Button onClick={() => handleOpenModal()}>
-                        <Plus className="w-4 h-4" />
-                        <span className="hidden sm:inline">Add Skill</span>
-                    </Button>
+                    {canEdit && (
+                        <Button onClick={() => handleOpenModal()}>
+                            <Plus className="w-4 h-4" />
+                            <span className="hidden sm:inline">Add Skill</span>
+                        </Button>
+                    )}
+                </div>
+                <div className="flex gap-3">
+                    <Input
+                        type="search"
+                        placeholder="Search skills..."
+                        value={searchInput}
+                        onChange={(e) => setSearchInput(e.target.value)}
+                        className="w-full"
+                    />
+                    <SortSelect value={sortValue} options={sortOptions} onChange={setSort} />
                 </div>
-                <Input
-                    type="search"
-                    placeholder="Search skills..."
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                    className="w-full"
-                />
             </div>
 
-            {(() => {
-                const filteredSkills = skills.filter(skill =>
-                    skill.name.toLowerCase().includes(searchQuery.toLowerCase())
-                );
+            {skills.length === 0 ? (
+                <div className="text-center py-12 bg-gray-900 border border-gray-800 rounded-xl">
+                    <p className="text-gray-400">
+                        {params.q ? 'No skills found matching your search.' : 'No skills yet. Add your first skill to get started.'}
+                    </p>
+                </div>
+            ) : (
+                <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
+                    {skills.map((skill) => (
+                        <SkillItem
+                            key={skill.id}
+                            skill={skill}
+                            onEdit={handleOpenModal}
+                            onDelete={handleDelete}
+                            readOnly={!canEdit || isTempId(skill.id)}
+                        />
+                    ))}
+                </div>
+            )}
 
-                return filteredSkills.length === 0 ? (
-                    <div className="text-center py-12 bg-gray-900 border border-gray-800 rounded-xl">
-                        <p className="text-gray-400">
-                            {searchQuery ? 'No skills found matching your search.' : 'No skills yet. Add your first skill to get started.'}
-                        </p>
-                    </div>
-                ) : (
-                    <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
-                        {filteredSkills.map((skill) => (
-                            <SkillItem
-                                key={skill.id}
-                                skill={skill}
-                                onEdit={handleOpenModal}
-                                onDelete={handleDelete}
-                            />
-                        ))}
-                    </div>
-                );
-            })()}
+            {skillsPage && (
+                <Pagination
+                    page={skillsPage.page}
+                    totalPages={skillsPage.totalPages}
+                    total={skillsPage.total}
+                    onPageChange={setPage}
+                    disabled={isFetching}
+                />
+            )}
 
             <Modal
                 open={isModalOpen}
@@ -195,66 +319,79 @@ export default function Skills() {
                 description={editingSkill ? 'Update skill information' : 'Create a new skill'}
                 disabled={isSubmitting}
             >
-                <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
-                    <Input
-                        label="Skill Name"
-                        placeholder="e.g., TypeScript"
-                        disabled={isSubmitting}
-                        error={errors.name?.message}
-                        {...register('name')}
+                {!conflict && <RemoteChangeBadge resource={queryKeys.skills} item={editingSkill} />}
+                {conflict ? (
+                    <EditConflict
+                        fields={conflictFields}
+                        mine={conflict.mine}
+                        theirs={toFormValues(conflict.server)}
+                        onOverwrite={handleOverwrite}
+                        onReload={handleReload}
+                        onMerge={handleMerge}
                     />
-
-                    <div>
-                        <label className="block text-sm font-medium text-gray-300 mb-1.5">
-                            Icon
-                        </label>
-                        <input
-                            type="file"
-                            accept="image/*"
+                ) : (
+                    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                        <Input
+                            label="Skill Name"
+                            placeholder="e.g., TypeScript"
                             disabled={isSubmitting}
-                            className="block w-full text-sm text-gray-400 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-primary-600 file:text-white hover:file:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
-                            {...register('icon')}
-                            onChange={handleIconChange}
+                            error={errors.name?.message}
+                            {...register('name')}
                         />
-                        {errors.icon && (
-                            <p className="mt-1.5 text-sm text-red-500">{errors.icon.message as string}</p>
-                        )}
-                        {!editingSkill && (
-                            <p className="mt-1 text-xs text-gray-500">Icon is required for new skills</p>
-                        )}
-                        {iconPreview && (
-                            <div className="mt-3">
-                                <img
-                                    src={iconPreview}
-                                    alt="Preview"
-                                    className="w-16 h-16 object-contain rounded border border-gray-700"
-                                />
-                            </div>
-                        )}
-                    </div>
 
-                    <div className="flex gap-3 pt-4">
-                        <Button
-                            type="button"
-                            variant="outline"
-                            onClick={handleCloseModal}
-                            disabled={isSubmitting}
-                            className="flex-1"
-                        >
-                            Cancel
-                        </Button>
-                        <Button type="submit" disabled={isSubmitting} className="flex-1">
-                            {isSubmitting ? (
-                                <>
-                                    <Loader2 className="w-4 h-4 animate-spin" />
-                                    {editingSkill ? 'Updating...' : 'Creating...'}
-                                </>
-                            ) : (
-                                <>{editingSkill ? 'Update' : 'Create'}</>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-300 mb-1.5">
+                                Icon
+                            </label>
+                            <input
+                                type="file"
+                                accept="image/*"
+                                disabled={isSubmitting}
+                                className="block w-full text-sm text-gray-400 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-primary-600 file:text-white hover:file:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                                {...register('icon')}
+                                onChange={handleIconChange}
+                            />
+                            {errors.icon && (
+                                <p className="mt-1.5 text-sm text-red-500">{errors.icon.message as string}</p>
                             )}
-                        </Button>
-                    </div>
-                </form>
+                            {!editingSkill && (
+                                <p className="mt-1 text-xs text-gray-500">Icon is required for new skills</p>
+                            )}
+                            {iconPreview && (
+                                <div className="mt-3">
+                                    <img
+                                        src={iconPreview}
+                                        alt="Preview"
+                                        className="w-16 h-16 object-contain rounded border border-gray-700"
+                                    />
+                                </div>
+                            )}
+                        </div>
+
+                        {uploadProgress && <UploadProgress {...uploadProgress} />}
+
+                        <div className="flex gap-3 pt-4">
+                            <Button
+                                type="button"
+                                variant="outline"
+                                onClick={isSubmitting ? handleCancelUpload : handleCloseModal}
+                                className="flex-1"
+                            >
+                                {isSubmitting ? 'Cancel Upload' : 'Cancel'}
+                            </Button>
+                            <Button type="submit" disabled={isSubmitting} className="flex-1">
+                                {isSubmitting ? (
+                                    <>
+                                        <Loader2 className="w-4 h-4 animate-spin" />
+                                        {editingSkill ? 'Updating...' : 'Creating...'}
+                                    </>
+                                ) : (
+                                    <>{editingSkill ? 'Update' : 'Create'}</>
+                                )}
+                            </Button>
+                        </div>
+                    </form>
+                )}
             </Modal>
 
             <ConfirmDialog
@@ -0,0 +1,235 @@
+import { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import toast from 'react-hot-toast';
+import { Loader2, Trash2, UserPlus } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import ConfirmDialog from '@/components/ui/ConfirmDialog';
+import { teamService } from '@/services/team';
+import { useAbortController } from '@/hooks/useAbortController';
+import { useAuthStore } from '@/store/authStore';
+import { applyServerErrors } from '@/lib/formErrors';
+import { isAbortError } from '@/lib/apiError';
+import type { TeamMember, UserRole } from '@/types';
+
+const inviteSchema = z.object({
+    email: z.string().email('Invalid email address'),
+    role: z.enum(['editor', 'viewer']),
+});
+
+type InviteFormData = z.infer<typeof inviteSchema>;
+
+const roleDescriptions: Record<UserRole, string> = {
+    owner: 'Full access, including profile and team',
+    editor: 'Can edit portfolio content',
+    viewer: 'Read-only access',
+};
+
+const selectClassName =
+    'h-10 rounded-md border border-gray-700 bg-gray-900 px-3 py-2 text-sm text-gray-100 focus:outline-none focus:ring-2 focus:ring-primary-600 focus:border-transparent disabled:cursor-not-allowed disabled:opacity-50';
+
+export default function Team() {
+    const currentUser = useAuthStore((state) => state.user);
+    const createAbortController = useAbortController();
+    const [members, setMembers] = useState<TeamMember[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isInviting, setIsInviting] = useState(false);
+    const [updatingId, setUpdatingId] = useState<string | null>(null);
+    const [confirmDialog, setConfirmDialog] = useState<{ open: boolean; memberId: string | null }>({ open: false, memberId: null });
+
+    const {
+        register,
+        handleSubmit,
+        reset,
+        setError,
+        formState: { errors },
+    } = useForm<InviteFormData>({
+        resolver: zodResolver(inviteSchema),
+        defaultValues: {
+            email: '',
+            role: 'editor',
+        },
+    });
+
+    useEffect(() => {
+        const controller = new AbortController();
+        loadMembers(controller.signal);
+        return () => controller.abort();
+    }, []);
+
+    const loadMembers = async (signal?: AbortSignal) => {
+        try {
+            const data = await teamService.getAll(signal);
+            setMembers(data);
+        } catch (error) {
+            if (!isAbortError(error)) {
+                toast.error('Failed to load team members');
+            }
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const onSubmit = async (data: InviteFormData) => {
+        setIsInviting(true);
+        try {
+            await teamService.invite(data, createAbortController().signal);
+            toast.success(`Invitation sent to ${data.email}`);
+            reset();
+            await loadMembers(createAbortController().signal);
+        } catch (error) {
+            if (isAbortError(error)) return;
+            if (!applyServerErrors(error, setError, Object.keys(inviteSchema.shape))) {
+                toast.error(error instanceof Error ? error.message : 'Failed to send invitation');
+            }
+        } finally {
+            setIsInviting(false);
+        }
+    };
+
+    const handleRoleChange = async (member: TeamMember, role: UserRole) => {
+        setUpdatingId(member.id);
+        try {
+            await teamService.updateRole(member.id, role, createAbortController().signal);
+            toast.success('Role updated');
+            await loadMembers(createAbortController().signal);
+        } catch (error) {
+            if (isAbortError(error)) return;
+            toast.error(error instanceof Error ? error.message : 'Failed to update role');
+        } finally {
+            setUpdatingId(null);
+        }
+    };
+
+    const confirmRemove = async () => {
+        if (!confirmDialog.memberId) return;
+
+        try {
+            await teamService.remove(confirmDialog.memberId, createAbortController().signal);
+            toast.success('Team member removed');
+            await loadMembers(createAbortController().signal);
+        } catch (error) {
+            if (!isAbortError(error)) {
+                toast.error('Failed to remove team member');
+            }
+        }
+    };
+
+    if (isLoading) {
+        return (
+            <div className="flex items-center justify-center h-64">
+                <Loader2 className="w-8 h-8 text-primary-500 animate-spin" />
+            </div>
+        );
+    }
+
+    return (
+        <div>
+            <div className="mb-8">
+                <h1 className="text-3xl font-bold text-white">Team</h1>
+                <p className="text-gray-400 mt-2">Invite collaborators and manage their access</p>
+            </div>
+
+            <div className="max-w-3xl space-y-6">
+                <div className="bg-gray-900 border border-gray-800 rounded-xl p-8">
+                    <h2 className="text-xl font-semibold text-white mb-6">Invite Collaborator</h2>
+                    <form onSubmit={handleSubmit(onSubmit)} className="flex flex-col sm:flex-row gap-3 sm:items-start">
+                        <div className="flex-1">
+                            <Input
+                                type="email"
+                                placeholder="collaborator@example.com"
+                                disabled={isInviting}
+                                error={errors.email?.message}
+                                {...register('email')}
+                            />
+                        </div>
+                        <select
+                            disabled={isInviting}
+                            className={selectClassName}
+                            {...register('role')}
+                        >
+                            <option value="editor">Editor</option>
+                            <option value="viewer">Viewer</option>
+                        </select>
+                        <Button type="submit" disabled={isInviting}>
+                            {isInviting ? (
+                                <Loader2 className="w-4 h-4 animate-spin" />
+                            ) : (
+                                <UserPlus className="w-4 h-4" />
+                            )}
+                            Invite
+                        </Button>
+                    </form>
+                </div>
+
+                <div className="bg-gray-900 border border-gray-800 rounded-xl p-8">
+                    <h2 className="text-xl font-semibold text-white mb-6">Members</h2>
+                    {members.length === 0 ? (
+                        <p className="text-sm text-gray-400">No collaborators yet.</p>
+                    ) : (
+                        <ul className="space-y-3">
+                            {members.map((member) => {
+                                const isSelf = member.email === currentUser?.email;
+                                const isOwner = member.role === 'owner';
+                                return (
+                                    <li
+                                        key={member.id}
+                                        className="flex flex-col sm:flex-row sm:items-center gap-3 bg-gray-800 rounded-lg px-4 py-3"
+                                    >
+                                        <div className="flex-1 min-w-0">
+                                            <p className="text-sm font-medium text-white truncate">
+                                                {member.name || member.email}
+                                                {member.status === 'pending' && (
+                                                    <span className="ml-2 text-xs font-medium px-2 py-0.5 rounded-full bg-yellow-900/40 text-yellow-400">
+                                                        Pending
+                                                    </span>
+                                                )}
+                                            </p>
+                                            <p className="text-xs text-gray-400 truncate">
+                                                {member.email} &middot; {roleDescriptions[member.role]}
+                                            </p>
+                                        </div>
+                                        {isOwner || isSelf ? (
+                                            <span className="text-sm text-gray-400 capitalize">{member.role}</span>
+                                        ) : (
+                                            <div className="flex items-center gap-2">
+                                                <select
+                                                    value={member.role}
+                                                    disabled={updatingId === member.id}
+                                                    onChange={(e) => handleRoleChange(member, e.target.value as UserRole)}
+                                                    className={selectClassName}
+                                                >
+                                                    <option value="editor">Editor</option>
+                                                    <option value="viewer">Viewer</option>
+                                                </select>
+                                                <Button
+                                                    size="icon"
+                                                    variant="ghost"
+                                                    onClick={() => setConfirmDialog({ open: true, memberId: member.id })}
+                                                >
+                                                    <Trash2 className="w-4 h-4 text-red-500" />
+                                                </Button>
+                                            </div>
+                                        )}
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    )}
+                </div>
+            </div>
+
+            <ConfirmDialog
+                open={confirmDialog.open}
+                onClose={() => setConfirmDialog({ open: false, memberId: null })}
+                onConfirm={confirmRemove}
+                title="Remove Team Member"
+                message="This person will lose access to the CMS immediately."
+                confirmText="Remove"
+                cancelText="Cancel"
+            />
+        </div>
+    );
+}
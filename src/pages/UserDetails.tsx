@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -6,9 +6,18 @@ import toast from 'react-hot-toast';
 import { Save, Loader2, User as UserIcon, Plus, X } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
+import UploadProgress, { type UploadProgressState } from '@/components/ui/UploadProgress';
+import EditConflict, { type ConflictField } from '@/components/ui/EditConflict';
 import { userDetailsService } from '@/services/userDetails';
+import { useQuery } from '@/hooks/useQuery';
+import { useAbortController } from '@/hooks/useAbortController';
+import { createTempId, queryCache, queryKeys } from '@/lib/queryCache';
 import type { UserDetails } from '@/types';
 import { compressImage } from '@/lib/imageCompression';
+import { applyServerErrors } from '@/lib/formErrors';
+import { OfflineQueuedError } from '@/lib/outbox';
+import { EditConflictError, type EditConflictState } from '@/lib/editConflict';
+import { isAbortError } from '@/lib/apiError';
 
 const userDetailsSchema = z.object({
     name: z.string().min(1, 'Name is required'),
@@ -19,47 +28,83 @@ const userDetailsSchema = z.object({
 
 type UserDetailsFormData = z.infer<typeof userDetailsSchema>;
 
+// Social links live outside the form, so conflicts compare them alongside the form fields.
+type UserDetailsValues = UserDetailsFormData & { socialMedias: string[] };
+
+const toValues = (details: UserDetails): UserDetailsValues => ({
+    name: details.name,
+    role: details.role,
+    description: details.description || '',
+    socialMedias: details.socialMedias || [],
+});
+
+const conflictFields: ConflictField<UserDetailsValues>[] = [
+    { name: 'name', label: 'Name' },
+    { name: 'role', label: 'Role' },
+    { name: 'description', label: 'Description' },
+    {
+        name: 'socialMedias',
+        label: 'Social Media',
+        format: (value) => (value as string[]).map((link) => link.split('|')[1] ?? link).join(', ') || '—',
+    },
+];
+
 export default function UserDetailsPage() {
-    const [userDetails, setUserDetails] = useState<UserDetails | null>(null);
-    const [isLoading, setIsLoading] = useState(true);
+    const createAbortController = useAbortController();
+    const { data: userDetails, isLoading } = useQuery(queryKeys.userDetails, userDetailsService.get, {
+        errorMessage: 'Failed to load user details',
+    });
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [photoPreview, setPhotoPreview] = useState<string | null>(null);
     const [socialMedias, setSocialMedias] = useState<string[]>([]);
     const [newSocialMediaIcon, setNewSocialMediaIcon] = useState('');
     const [newSocialMediaUrl, setNewSocialMediaUrl] = useState('');
+    const appliedVersionRef = useRef<string | null>(null);
+    const [conflict, setConflict] = useState<EditConflictState<UserDetails, UserDetailsValues> | null>(null);
+    const [uploadProgress, setUploadProgress] = useState<UploadProgressState | null>(null);
+    const uploadControllerRef = useRef<AbortController | null>(null);
 
     const {
         register,
         handleSubmit,
         formState: { errors },
         setValue,
+        setError,
     } = useForm<UserDetailsFormData>({
         resolver: zodResolver(userDetailsSchema),
     });
 
+    // Only copy server data into the form when it actually changed, so an optimistic
+    // write being rolled back doesn't wipe out what the user typed. While a conflict is
+    // open the user decides what ends up in the form.
     useEffect(() => {
-        loadUserDetails();
-    }, []);
+        if (!userDetails || conflict || userDetails.updatedAt === appliedVersionRef.current) return;
 
-    const loadUserDetails = async () => {
-        try {
-            const data = await userDetailsService.get();
-            if (data) {
-                setUserDetails(data);
-                setValue('name', data.name);
-                setValue('role', data.role);
-                setValue('description', data.description || '');
-                setSocialMedias(data.socialMedias || []);
-                setPhotoPreview(data.profilePhoto);
-            }
-        } catch (error) {
-            toast.error('Failed to load user details');
-        } finally {
-            setIsLoading(false);
-        }
-    };
+        appliedVersionRef.current = userDetails.updatedAt;
+        setValue('name', userDetails.name);
+        setValue('role', userDetails.role);
+        setValue('description', userDetails.description || '');
+        setSocialMedias(userDetails.socialMedias || []);
+        setPhotoPreview(userDetails.profilePhoto);
+    }, [userDetails, conflict, setValue]);
+
+    const saveUserDetails = async (data: UserDetailsValues, expectedUpdatedAt: string | null) => {
+        const now = new Date().toISOString();
+        const fields = {
+            name: data.name,
+            role: data.role,
+            description: data.description || null,
+            socialMedias: data.socialMedias,
+            profilePhoto: photoPreview,
+        };
+        const rollback = queryCache.optimistic<UserDetails | null>(queryKeys.userDetails, (previous) =>
+            previous
+                ? { ...previous, ...fields }
+                : { id: createTempId(), userId: '', createdAt: now, updatedAt: now, ...fields }
+        );
 
-    const onSubmit = async (data: UserDetailsFormData) => {
+        const controller = createAbortController();
+        uploadControllerRef.current = controller;
         setIsSubmitting(true);
         try {
             const formData = new FormData();
@@ -69,31 +114,85 @@ export default function UserDetailsPage() {
                 formData.append('description', data.description);
             }
 
-            socialMedias.forEach((link) => {
+            data.socialMedias.forEach((link) => {
                 formData.append('socialMedias', link);
             });
 
             if (data.profilePhoto && data.profilePhoto[0]) {
-                const compressedPhoto = await compressImage(data.profilePhoto[0]);
+                setUploadProgress({ stage: 'compressing', percent: 0 });
+                const compressedPhoto = await compressImage(data.profilePhoto[0], {
+                    signal: controller.signal,
+                    onProgress: (percent) => setUploadProgress({ stage: 'compressing', percent }),
+                });
                 formData.append('profilePhoto', compressedPhoto);
             }
 
-            if (userDetails) {
-                await userDetailsService.update(formData);
+            const handleProgress = (percent: number) => setUploadProgress({ stage: 'uploading', percent });
+            setUploadProgress({ stage: 'uploading', percent: 0 });
+
+            if (expectedUpdatedAt) {
+                await userDetailsService.update(formData, expectedUpdatedAt, controller.signal, handleProgress);
                 toast.success('User details updated successfully');
             } else {
-                await userDetailsService.create(formData);
+                await userDetailsService.create(formData, controller.signal, handleProgress);
                 toast.success('User details created successfully');
             }
-
-            await loadUserDetails();
         } catch (error) {
-            toast.error(error instanceof Error ? error.message : 'Operation failed');
+            if (error instanceof OfflineQueuedError) {
+                toast.success(error.message);
+                return;
+            }
+            rollback();
+            if (isAbortError(error)) return;
+            if (error instanceof EditConflictError) {
+                setConflict({ server: error.current, mine: data });
+                return;
+            }
+            if (!applyServerErrors(error, setError, Object.keys(userDetailsSchema.shape))) {
+                toast.error(error instanceof Error ? error.message : 'Operation failed');
+            }
         } finally {
+            uploadControllerRef.current = null;
+            setUploadProgress(null);
             setIsSubmitting(false);
         }
     };
 
+    const onSubmit = (data: UserDetailsFormData) =>
+        saveUserDetails({ ...data, socialMedias }, userDetails ? appliedVersionRef.current : null);
+
+    const applyValues = (values: UserDetailsValues) => {
+        setValue('name', values.name);
+        setValue('role', values.role);
+        setValue('description', values.description);
+        setSocialMedias(values.socialMedias);
+    };
+
+    const handleOverwrite = () => {
+        if (!conflict) return;
+        setConflict(null);
+        appliedVersionRef.current = conflict.server.updatedAt;
+        saveUserDetails(conflict.mine, conflict.server.updatedAt);
+    };
+
+    const handleReload = () => {
+        if (!conflict) return;
+        setConflict(null);
+        appliedVersionRef.current = null;
+        queryCache.setData(queryKeys.userDetails, conflict.server);
+    };
+
+    const handleMerge = (merged: UserDetailsValues) => {
+        if (!conflict) return;
+        setConflict(null);
+        appliedVersionRef.current = conflict.server.updatedAt;
+        applyValues(merged);
+    };
+
+    const handleCancelUpload = () => {
+        uploadControllerRef.current?.abort();
+    };
+
     const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
         if (file) {
@@ -135,173 +234,197 @@ export default function UserDetailsPage() {
 
             <div className="max-w-3xl">
                 <div className="bg-gray-900 border border-gray-800 rounded-xl p-8">
-                    <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
-                        <div>
-                            <label className="block text-sm font-medium text-gray-300 mb-3">
-                                Profile Photo
-                            </label>
-                            <div className="flex items-center gap-6">
-                                <div className="w-24 h-24 rounded-full bg-gray-800 flex items-center justify-center overflow-hidden">
-                                    {photoPreview ? (
-                                        <img
-                                            src={photoPreview}
-                                            alt="Profile"
-                                            className="w-full h-full object-cover"
+                    {conflict ? (
+                        <EditConflict
+                            fields={conflictFields}
+                            mine={conflict.mine}
+                            theirs={toValues(conflict.server)}
+                            onOverwrite={handleOverwrite}
+                            onReload={handleReload}
+                            onMerge={handleMerge}
+                        />
+                    ) : (
+                        <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+                            <div>
+                                <label className="block text-sm font-medium text-gray-300 mb-3">
+                                    Profile Photo
+                                </label>
+                                <div className="flex items-center gap-6">
+                                    <div className="w-24 h-24 rounded-full bg-gray-800 flex items-center justify-center overflow-hidden">
+                                        {photoPreview ? (
+                                            <img
+                                                src={photoPreview}
+                                                alt="Profile"
+                                                className="w-full h-full object-cover"
+                                            />
+                                        ) : (
+                                            <UserIcon className="w-12 h-12 text-gray-600" />
+                                        )}
+                                    </div>
+                                    <div className="flex-1">
+                                        <input
+                                            type="file"
+                                            accept="image/*"
+                                            disabled={isSubmitting}
+                                            className="block w-full text-sm text-gray-400 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-primary-600 file:text-white hover:file:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                                            {...register('profilePhoto')}
+                                            onChange={handlePhotoChange}
                                         />
-                                    ) : (
-                                        <UserIcon className="w-12 h-12 text-gray-600" />
-                                    )}
-                                </div>
-                                <div className="flex-1">
-                                    <input
-                                        type="file"
-                                        accept="image/*"
-                                        disabled={isSubmitting}
-                                        className="block w-full text-sm text-gray-400 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-primary-600 file:text-white hover:file:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
-                                        {...register('profilePhoto')}
-                                        onChange={handlePhotoChange}
-                                    />
-                                    <p className="text-xs text-gray-500 mt-2">
-                                        Recommended: Square image, at least 400x400px
-                                    </p>
+                                        <p className="text-xs text-gray-500 mt-2">
+                                            Recommended: Square image, at least 400x400px
+                                        </p>
+                                    </div>
                                 </div>
                             </div>
-                        </div>
-
-                        <Input
-                            label="Name"
-                            placeholder="e.g., John Doe"
-                            disabled={isSubmitting}
-                            error={errors.name?.message}
-                            {...register('name')}
-                        />
 
-                        <Input
-                            label="Role"
-                            placeholder="e.g., Full Stack Developer"
-                            disabled={isSubmitting}
-                            error={errors.role?.message}
-                            {...register('role')}
-                        />
+                            <Input
+                                label="Name"
+                                placeholder="e.g., John Doe"
+                                disabled={isSubmitting}
+                                error={errors.name?.message}
+                                {...register('name')}
+                            />
 
-                        <div>
-                            <label className="block text-sm font-medium text-gray-300 mb-1.5">
-                                Description
-                            </label>
-                            <textarea
-                                className="flex w-full rounded-md border border-gray-700 bg-gray-900 px-3 py-2 text-sm text-gray-100 placeholder:text-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-600 focus:border-transparent disabled:cursor-not-allowed disabled:opacity-50 min-h-[120px]"
-                                placeholder="Tell us about yourself..."
+                            <Input
+                                label="Role"
+                                placeholder="e.g., Full Stack Developer"
                                 disabled={isSubmitting}
-                                {...register('description')}
+                                error={errors.role?.message}
+                                {...register('role')}
                             />
-                            {errors.description && (
-                                <p className="mt-1.5 text-sm text-red-500">{errors.description.message}</p>
-                            )}
-                        </div>
-
-                        <div>
-                            <label className="block text-sm font-medium text-gray-300 mb-3">
-                                Social Media Links
-                            </label>
-                            <p className="text-xs text-gray-500 mb-3">
-                                Add social media links with Phosphor icons (e.g., github-logo, linkedin-logo, twitter-logo)
-                            </p>
-
-                            <div className="space-y-2 mb-3">
-                                {socialMedias.map((link, index) => {
-                                    const [icon, url] = link.split('|');
-                                    return (
-                                        <div
-                                            key={index}
-                                            className="flex items-center gap-3 bg-gray-800 px-3 py-2 rounded"
-                                        >
-                                            <i className={`ph ph-${icon} text-xl text-gray-300`}></i>
-                                            <span className="flex-1 text-sm text-gray-300 truncate">{url}</span>
-                                            <button
-                                                type="button"
-                                                disabled={isSubmitting}
-                                                onClick={() => handleRemoveSocialMedia(index)}
-                                                className="text-red-500 hover:text-red-400 disabled:opacity-50 disabled:cursor-not-allowed"
-                                            >
-                                                <X className="w-4 h-4" />
-                                            </button>
-                                        </div>
-                                    );
-                                })}
+
+                            <div>
+                                <label className="block text-sm font-medium text-gray-300 mb-1.5">
+                                    Description
+                                </label>
+                                <textarea
+                                    className="flex w-full rounded-md border border-gray-700 bg-gray-900 px-3 py-2 text-sm text-gray-100 placeholder:text-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-600 focus:border-transparent disabled:cursor-not-allowed disabled:opacity-50 min-h-[120px]"
+                                    placeholder="Tell us about yourself..."
+                                    disabled={isSubmitting}
+                                    {...register('description')}
+                                />
+                                {errors.description && (
+                                    <p className="mt-1.5 text-sm text-red-500">{errors.description.message}</p>
+                                )}
                             </div>
 
-                            <div className="space-y-3">
-                                <div className="flex gap-2 items-start">
-                                    <div className="flex-1">
-                                        <label className="block text-xs text-gray-400 mb-1">Icon Name</label>
-                                        <div className="flex gap-2 items-center">
-                                            <input
-                                                type="text"
-                                                value={newSocialMediaIcon}
-                                                disabled={isSubmitting}
-                                                onChange={(e) => setNewSocialMediaIcon(e.target.value)}
-                                                placeholder="github-logo"
-                                                className="flex-1 h-10 rounded-md border border-gray-700 bg-gray-900 px-3 py-2 text-sm text-gray-100 placeholder:text-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-600 focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed"
-                                            />
-                                            {newSocialMediaIcon && (
-                                                <div className="w-10 h-10 flex items-center justify-center bg-gray-800 rounded border border-gray-700">
-                                                    <i className={`ph ph-${newSocialMediaIcon} text-xl text-gray-300`}></i>
-                                                </div>
-                                            )}
+                            <div>
+                                <label className="block text-sm font-medium text-gray-300 mb-3">
+                                    Social Media Links
+                                </label>
+                                <p className="text-xs text-gray-500 mb-3">
+                                    Add social media links with Phosphor icons (e.g., github-logo, linkedin-logo, twitter-logo)
+                                </p>
+
+                                <div className="space-y-2 mb-3">
+                                    {socialMedias.map((link, index) => {
+                                        const [icon, url] = link.split('|');
+                                        return (
+                                            <div
+                                                key={index}
+                                                className="flex items-center gap-3 bg-gray-800 px-3 py-2 rounded"
+                                            >
+                                                <i className={`ph ph-${icon} text-xl text-gray-300`}></i>
+                                                <span className="flex-1 text-sm text-gray-300 truncate">{url}</span>
+                                                <button
+                                                    type="button"
+                                                    disabled={isSubmitting}
+                                                    onClick={() => handleRemoveSocialMedia(index)}
+                                                    className="text-red-500 hover:text-red-400 disabled:opacity-50 disabled:cursor-not-allowed"
+                                                >
+                                                    <X className="w-4 h-4" />
+                                                </button>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+
+                                <div className="space-y-3">
+                                    <div className="flex gap-2 items-start">
+                                        <div className="flex-1">
+                                            <label className="block text-xs text-gray-400 mb-1">Icon Name</label>
+                                            <div className="flex gap-2 items-center">
+                                                <input
+                                                    type="text"
+                                                    value={newSocialMediaIcon}
+                                                    disabled={isSubmitting}
+                                                    onChange={(e) => setNewSocialMediaIcon(e.target.value)}
+                                                    placeholder="github-logo"
+                                                    className="flex-1 h-10 rounded-md border border-gray-700 bg-gray-900 px-3 py-2 text-sm text-gray-100 placeholder:text-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-600 focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed"
+                                                />
+                                                {newSocialMediaIcon && (
+                                                    <div className="w-10 h-10 flex items-center justify-center bg-gray-800 rounded border border-gray-700">
+                                                        <i className={`ph ph-${newSocialMediaIcon} text-xl text-gray-300`}></i>
+                                                    </div>
+                                                )}
+                                            </div>
                                         </div>
                                     </div>
-                                </div>
-                                <div>
-                                    <label className="block text-xs text-gray-400 mb-1">URL</label>
-                                    <input
-                                        type="url"
-                                        value={newSocialMediaUrl}
+                                    <div>
+                                        <label className="block text-xs text-gray-400 mb-1">URL</label>
+                                        <input
+                                            type="url"
+                                            value={newSocialMediaUrl}
+                                            disabled={isSubmitting}
+                                            onChange={(e) => setNewSocialMediaUrl(e.target.value)}
+                                            onKeyPress={(e) => {
+                                                if (e.key === 'Enter') {
+                                                    e.preventDefault();
+                                                    handleAddSocialMedia();
+                                                }
+                                            }}
+                                            placeholder="https://github.com/username"
+                                            className="w-full h-10 rounded-md border border-gray-700 bg-gray-900 px-3 py-2 text-sm text-gray-100 placeholder:text-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-600 focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed"
+                                        />
+                                    </div>
+                                    <Button
+                                        type="button"
+                                        onClick={handleAddSocialMedia}
+                                        variant="outline"
                                         disabled={isSubmitting}
-                                        onChange={(e) => setNewSocialMediaUrl(e.target.value)}
-                                        onKeyPress={(e) => {
-                                            if (e.key === 'Enter') {
-                                                e.preventDefault();
-                                                handleAddSocialMedia();
-                                            }
-                                        }}
-                                        placeholder="https://github.com/username"
-                                        className="w-full h-10 rounded-md border border-gray-700 bg-gray-900 px-3 py-2 text-sm text-gray-100 placeholder:text-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-600 focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed"
-                                    />
+                                        className="w-full"
+                                    >
+                                        <Plus className="w-4 h-4" />
+                                        Add Social Media
+                                    </Button>
                                 </div>
+                            </div>
+
+                            {uploadProgress && <UploadProgress {...uploadProgress} />}
+
+                            <div className="pt-4 border-t border-gray-800 flex flex-col sm:flex-row gap-3">
                                 <Button
-                                    type="button"
-                                    onClick={handleAddSocialMedia}
-                                    variant="outline"
+                                    type="submit"
                                     disabled={isSubmitting}
-                                    className="w-full"
+                                    size="lg"
+                                    className="w-full sm:w-auto"
                                 >
-                                    <Plus className="w-4 h-4" />
-                                    Add Social Media
+                                    {isSubmitting ? (
+                                        <>
+                                            <Loader2 className="w-4 h-4 animate-spin" />
+                                            Saving...
+                                        </>
+                                    ) : (
+                                        <>
+                                            <Save className="w-4 h-4" />
+                                            {userDetails ? 'Update Profile' : 'Create Profile'}
+                                        </>
+                                    )}
                                 </Button>
-                            </div>
-                        </div>
-
-                        <div className="pt-4 border-t border-gray-800">
-                            <Button
-                                type="submit"
-                                disabled={isSubmitting}
-                                size="lg"
-                                className="w-full sm:w-auto"
-                            >
-                                {isSubmitting ? (
-                                    <>
-                                        <Loader2 className="w-4 h-4 animate-spin" />
-                                        Saving...
-                                    </>
-                                ) : (
-                                    <>
-                                        <Save className="w-4 h-4" />
-                                        {userDetails ? 'Update Profile' : 'Create Profile'}
-                                    </>
+                                {isSubmitting && (
+                                    <Button
+                                        type="button"
+                                        variant="outline"
+                                        size="lg"
+                                        onClick={handleCancelUpload}
+                                        className="w-full sm:w-auto"
+                                    >
+                                        Cancel Upload
+                                    </Button>
                                 )}
-                            </Button>
-                        </div>
-                    </form>
+                            </div>
+                        </form>
+                    )}
                 </div>
 
                 <div className="mt-6 bg-blue-900/20 border border-blue-800 rounded-lg p-4">
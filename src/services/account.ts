@@ -0,0 +1,24 @@
+import api from './api';
+import type { User, UpdateProfileData, ChangePasswordData, ApiResponse } from '@/types';
+import { authStorage } from '@/lib/authStorage';
+import { parseResponse } from '@/lib/responseValidation';
+import { userSchema } from '@/types/schemas';
+
+export const accountService = {
+    async updateProfile(data: UpdateProfileData, signal?: AbortSignal): Promise<User> {
+        const response = await api.put<ApiResponse<User>>('/auth/me', data, { signal });
+        if (response.data.success && response.data.data) {
+            const user = parseResponse(userSchema, response.data.data, 'PUT /auth/me');
+            authStorage.setUser(user);
+            return user;
+        }
+        throw new Error(response.data.error || 'Failed to update profile');
+    },
+
+    async changePassword(data: ChangePasswordData, signal?: AbortSignal): Promise<void> {
+        const response = await api.put<ApiResponse<void>>('/auth/password', data, { signal });
+        if (!response.data.success) {
+            throw new Error(response.data.error || 'Failed to change password');
+        }
+    },
+};
@@ -1,18 +1,116 @@
-import axios from 'axios';
+import axios, { AxiosError, type AxiosAdapter, type AxiosProgressEvent, type InternalAxiosRequestConfig } from 'axios';
+import type { ApiResponse, AuthTokens, UploadProgressHandler } from '@/types';
+import { authStorage } from '@/lib/authStorage';
+import { buildLoginPath } from '@/lib/redirect';
+import { clientId } from '@/lib/clientId';
+import { config } from '@/lib/config';
+import { toApiError } from '@/lib/apiError';
+import { OfflineQueuedError, isQueueable, outbox } from '@/lib/outbox';
+import { getRetryDelay, resolveRetryPolicy, retryNotice, waitForRetry, type RetryPolicy } from '@/lib/retry';
+
+declare module 'axios' {
+    interface AxiosRequestConfig {
+        // Set on outbox replays so a failed replay is reported instead of queued again.
+        skipOutbox?: boolean;
+        retry?: Partial<RetryPolicy> | false;
+    }
+}
+
+interface RetriableRequestConfig extends InternalAxiosRequestConfig {
+    _retry?: boolean;
+    _retryAttempt?: number;
+}
+
+interface PendingRequest {
+    resolve: (token: string) => void;
+    reject: (error: unknown) => void;
+}
+
+export const baseURL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
 
 const api = axios.create({
-    baseURL: import.meta.env.VITE_API_URL || 'http://localhost:3000/api',
+    baseURL,
     headers: {
         'Content-Type': 'application/json',
     },
 });
 
+// Separate instance so the refresh call never goes through the 401 interceptor.
+const refreshClient = axios.create({
+    baseURL,
+    headers: {
+        'Content-Type': 'application/json',
+    },
+});
+
+if (config.mockApi) {
+    // Loaded on first request so the mock backend stays out of the main bundle.
+    const mockAdapter: AxiosAdapter = async (requestConfig) =>
+        (await import('@/mocks/adapter')).mockAdapter(requestConfig);
+    api.defaults.adapter = mockAdapter;
+    refreshClient.defaults.adapter = mockAdapter;
+}
+
+const AUTH_ENDPOINTS = [
+    '/auth/login',
+    '/auth/register',
+    '/auth/refresh',
+    '/auth/logout',
+    '/auth/password',
+    '/auth/2fa/verify',
+];
+
+let isRefreshing = false;
+let pendingRequests: PendingRequest[] = [];
+
+const flushPendingRequests = (error: unknown, token: string | null) => {
+    pendingRequests.forEach(({ resolve, reject }) => {
+        if (token) {
+            resolve(token);
+        } else {
+            reject(error);
+        }
+    });
+    pendingRequests = [];
+};
+
+export const endSession = () => {
+    authStorage.clear();
+    if (!window.location.pathname.includes('/login')) {
+        window.location.href = buildLoginPath(window.location);
+    }
+};
+
+export const trackUploadProgress = (onProgress?: UploadProgressHandler) =>
+    onProgress &&
+    ((event: AxiosProgressEvent) => {
+        if (event.total) {
+            onProgress(Math.round((event.loaded / event.total) * 100));
+        }
+    });
+
+export async function refreshAccessToken(signal?: AbortSignal): Promise<string> {
+    const refreshToken = authStorage.getRefreshToken();
+    if (!refreshToken) {
+        throw new Error('No refresh token available');
+    }
+
+    const response = await refreshClient.post<ApiResponse<AuthTokens>>('/auth/refresh', { refreshToken }, { signal });
+    if (response.data.success && response.data.data) {
+        const { token, refreshToken: nextRefreshToken } = response.data.data;
+        authStorage.setTokens(token, nextRefreshToken);
+        return token;
+    }
+    throw new Error(response.data.error || 'Failed to refresh session');
+}
+
 api.interceptors.request.use(
     (config) => {
-        const token = localStorage.getItem('auth_token');
+        const token = authStorage.getToken();
         if (token) {
             config.headers.Authorization = `Bearer ${token}`;
         }
+        config.headers['X-Client-Id'] = clientId;
         return config;
     },
     (error) => {
@@ -22,15 +120,82 @@ api.interceptors.request.use(
 
 api.interceptors.response.use(
     (response) => response,
-    (error) => {
-        if (error.response?.status === 401) {
-            if (!window.location.pathname.includes('/login')) {
-                localStorage.removeItem('auth_token');
-                localStorage.removeItem('user');
-                window.location.href = '/login';
+    async (error: AxiosError) => {
+        const originalRequest = error.config as RetriableRequestConfig | undefined;
+
+        if (axios.isCancel(error)) {
+            return Promise.reject(error);
+        }
+
+        if (!error.response && !navigator.onLine && originalRequest && isQueueable(originalRequest)) {
+            try {
+                await outbox.enqueue(originalRequest, authStorage.getUser()?.id ?? null);
+                return Promise.reject(new OfflineQueuedError());
+            } catch {
+                return Promise.reject(toApiError(error));
             }
         }
-        return Promise.reject(error);
+
+        const retryPolicy = originalRequest ? resolveRetryPolicy(originalRequest) : null;
+        if (originalRequest && retryPolicy) {
+            const attempt = originalRequest._retryAttempt ?? 0;
+            const delay = getRetryDelay(error, retryPolicy, attempt);
+
+            if (delay !== null) {
+                const isFirstRetry = attempt === 0;
+                originalRequest._retryAttempt = attempt + 1;
+                if (isFirstRetry) {
+                    retryNotice.show();
+                }
+
+                const retried = waitForRetry(delay, originalRequest.signal as AbortSignal | undefined).then(() =>
+                    api(originalRequest)
+                );
+                return isFirstRetry ? retried.finally(() => retryNotice.hide()) : retried;
+            }
+        }
+
+        if (
+            error.response?.status !== 401 ||
+            !originalRequest ||
+            AUTH_ENDPOINTS.some((endpoint) => originalRequest.url?.includes(endpoint))
+        ) {
+            return Promise.reject(toApiError(error));
+        }
+
+        if (originalRequest._retry) {
+            endSession();
+            return Promise.reject(toApiError(error));
+        }
+
+        if (isRefreshing) {
+            return new Promise<string>((resolve, reject) => {
+                pendingRequests.push({ resolve, reject });
+            }).then(
+                (token) => {
+                    originalRequest._retry = true;
+                    originalRequest.headers.Authorization = `Bearer ${token}`;
+                    return api(originalRequest);
+                },
+                () => Promise.reject(toApiError(error))
+            );
+        }
+
+        originalRequest._retry = true;
+        isRefreshing = true;
+
+        try {
+            const token = await refreshAccessToken();
+            flushPendingRequests(null, token);
+            originalRequest.headers.Authorization = `Bearer ${token}`;
+            return api(originalRequest);
+        } catch (refreshError) {
+            flushPendingRequests(refreshError, null);
+            endSession();
+            return Promise.reject(toApiError(error));
+        } finally {
+            isRefreshing = false;
+        }
     }
 );
 
@@ -1,69 +1,103 @@
-import api from './api';
-import type { User, LoginCredentials, RegisterData, ApiResponse } from '@/types';
-import { AxiosError } from 'axios';
+import api, { refreshAccessToken } from './api';
+import type {
+    User,
+    LoginCredentials,
+    LoginResult,
+    RegisterData,
+    ApiResponse,
+    AuthResponse,
+    TwoFactorChallenge,
+    TwoFactorVerifyData,
+} from '@/types';
+import { authStorage } from '@/lib/authStorage';
+import { parseResponse } from '@/lib/responseValidation';
+import { userSchema } from '@/types/schemas';
+import { getTokenExpiry } from '@/lib/jwt';
+
+const LOGOUT_TIMEOUT_MS = 3_000;
 
 export const authService = {
-    async login(credentials: LoginCredentials): Promise<{ user: User; token: string }> {
-        try {
-            const response = await api.post<ApiResponse<{ user: User; token: string }>>('/auth/login', credentials);
-            if (response.data.success && response.data.data) {
-                const { user, token } = response.data.data;
-                localStorage.setItem('auth_token', token);
-                localStorage.setItem('user', JSON.stringify(user));
-                return { user, token };
-            }
-            throw new Error(response.data.error || 'Login failed');
-        } catch (error) {
-            if (error instanceof AxiosError && error.response?.data) {
-                const errorMessage = error.response.data.error || error.response.data.message || 'Login failed';
-                throw new Error(errorMessage);
+    async login(credentials: LoginCredentials, signal?: AbortSignal): Promise<LoginResult> {
+        const response = await api.post<ApiResponse<AuthResponse | TwoFactorChallenge>>('/auth/login', credentials, { signal });
+        if (response.data.success && response.data.data) {
+            const result = response.data.data;
+            if ('twoFactorRequired' in result && result.twoFactorRequired) {
+                return { status: 'two_factor_required', challengeToken: result.challengeToken };
             }
-            throw error;
+            const { token, refreshToken, user: rawUser } = result as AuthResponse;
+            const user = parseResponse(userSchema, rawUser, 'POST /auth/login');
+            authStorage.setTokens(token, refreshToken);
+            authStorage.setUser(user);
+            return { status: 'authenticated', user, token, refreshToken };
         }
+        throw new Error(response.data.error || 'Login failed');
     },
 
+    async verifyTwoFactor(data: TwoFactorVerifyData, signal?: AbortSignal): Promise<AuthResponse> {
+        const response = await api.post<ApiResponse<AuthResponse>>('/auth/2fa/verify', data, { signal });
+        if (response.data.success && response.data.data) {
+            const { token, refreshToken } = response.data.data;
+            const user = parseResponse(userSchema, response.data.data.user, 'POST /auth/2fa/verify');
+            authStorage.setTokens(token, refreshToken);
+            authStorage.setUser(user);
+            return { user, token, refreshToken };
+        }
+        throw new Error(response.data.error || 'Verification failed');
+    },
 
-    async register(data: RegisterData): Promise<{ user: User; token: string }> {
-        try {
-            const response = await api.post<ApiResponse<{ user: User; token: string }>>('/auth/register', data);
-            if (response.data.success && response.data.data) {
-                const { user, token } = response.data.data;
-                localStorage.setItem('auth_token', token);
-                localStorage.setItem('user', JSON.stringify(user));
-                return { user, token };
-            }
-            throw new Error(response.data.error || 'Registration failed');
-        } catch (error) {
-            if (error instanceof AxiosError && error.response?.data) {
-                const errorMessage = error.response.data.error || error.response.data.message || 'Registration failed';
-                throw new Error(errorMessage);
-            }
-            throw error;
+
+    async register(data: RegisterData, signal?: AbortSignal): Promise<AuthResponse> {
+        const response = await api.post<ApiResponse<AuthResponse>>('/auth/register', data, { signal });
+        if (response.data.success && response.data.data) {
+            const { token, refreshToken } = response.data.data;
+            const user = parseResponse(userSchema, response.data.data.user, 'POST /auth/register');
+            authStorage.setTokens(token, refreshToken);
+            authStorage.setUser(user);
+            return { user, token, refreshToken };
         }
+        throw new Error(response.data.error || 'Registration failed');
     },
 
-    async getMe(): Promise<User> {
-        const response = await api.get<ApiResponse<User>>('/auth/me');
+    async getMe(signal?: AbortSignal): Promise<User> {
+        const response = await api.get<ApiResponse<User>>('/auth/me', { signal });
         if (response.data.success && response.data.data) {
-            localStorage.setItem('user', JSON.stringify(response.data.data));
-            return response.data.data;
+            const user = parseResponse(userSchema, response.data.data, 'GET /auth/me');
+            authStorage.setUser(user);
+            return user;
         }
         throw new Error(response.data.error || 'Failed to get user');
     },
 
-    logout() {
-        localStorage.removeItem('auth_token');
-        localStorage.removeItem('user');
+    async refreshSession(signal?: AbortSignal): Promise<void> {
+        await refreshAccessToken(signal);
+    },
+
+    async logout(): Promise<void> {
+        const refreshToken = authStorage.getRefreshToken();
+        if (refreshToken) {
+            // Revoke the refresh token while its credentials are still stored; an unreachable
+            // server only delays the sign-out by the timeout.
+            await api
+                .post('/auth/logout', { refreshToken }, { timeout: LOGOUT_TIMEOUT_MS })
+                .catch(() => undefined);
+        }
+        authStorage.clear();
         window.location.href = '/login';
     },
 
     getStoredUser(): User | null {
-        const userStr = localStorage.getItem('user');
-        return userStr ? JSON.parse(userStr) : null;
+        return authStorage.getUser();
     },
 
     getStoredToken(): string | null {
-        return localStorage.getItem('auth_token');
+        return authStorage.getToken();
+    },
+
+    // The access token is renewed silently on demand, so the session ends when the refresh
+    // token does. Null when the backend issues opaque refresh tokens.
+    getSessionExpiry(): number | null {
+        const refreshToken = authStorage.getRefreshToken();
+        return refreshToken ? getTokenExpiry(refreshToken) : null;
     },
 
     isAuthenticated(): boolean {
@@ -1,5 +1,10 @@
 import api from './api';
-import type { Certification, ApiResponse } from '@/types';
+import { queryCache, queryKeys } from '@/lib/queryCache';
+import { toPaginated } from '@/lib/pagination';
+import type { Certification, ApiResponse, ListParams, Paginated } from '@/types';
+import { certificationSchema } from '@/types/schemas';
+import { parseResponse } from '@/lib/responseValidation';
+import { detectEditConflict } from '@/lib/editConflict';
 
 interface CertificationCreateData {
     name: string;
@@ -11,42 +16,58 @@ interface CertificationCreateData {
 }
 
 export const certificationsService = {
-    async getAll(): Promise<Certification[]> {
-        const response = await api.get<ApiResponse<Certification[]>>('/certifications');
+    async getAll(signal?: AbortSignal): Promise<Certification[]> {
+        const response = await api.get<ApiResponse<Certification[]>>('/certifications', { signal });
         if (response.data.success && response.data.data) {
-            return response.data.data;
+            return parseResponse(certificationSchema.array(), response.data.data, 'GET /certifications');
         }
         throw new Error(response.data.error || 'Failed to fetch certifications');
     },
 
-    async getById(id: string): Promise<Certification> {
-        const response = await api.get<ApiResponse<Certification>>(`/certifications/${id}`);
+    async list(params: ListParams = {}, signal?: AbortSignal): Promise<Paginated<Certification>> {
+        const response = await api.get<ApiResponse<Certification[]>>('/certifications', { params, signal });
         if (response.data.success && response.data.data) {
-            return response.data.data;
+            const items = parseResponse(certificationSchema.array(), response.data.data, 'GET /certifications');
+            return toPaginated(items, response.data.meta, params);
+        }
+        throw new Error(response.data.error || 'Failed to fetch certifications');
+    },
+
+    async getById(id: string, signal?: AbortSignal): Promise<Certification> {
+        const response = await api.get<ApiResponse<Certification>>(`/certifications/${id}`, { signal });
+        if (response.data.success && response.data.data) {
+            return parseResponse(certificationSchema, response.data.data, 'GET /certifications/:id');
         }
         throw new Error(response.data.error || 'Failed to fetch certification');
     },
 
-    async create(data: CertificationCreateData): Promise<Certification> {
-        const response = await api.post<ApiResponse<Certification>>('/certifications', data);
+    async create(data: CertificationCreateData, signal?: AbortSignal): Promise<Certification> {
+        const response = await api.post<ApiResponse<Certification>>('/certifications', data, { signal });
         if (response.data.success && response.data.data) {
-            return response.data.data;
+            queryCache.invalidate(queryKeys.certifications);
+            return parseResponse(certificationSchema, response.data.data, 'POST /certifications');
         }
         throw new Error(response.data.error || 'Failed to create certification');
     },
 
-    async update(id: string, data: CertificationCreateData): Promise<Certification> {
-        const response = await api.put<ApiResponse<Certification>>(`/certifications/${id}`, data);
+    async update(id: string, data: CertificationCreateData, expectedUpdatedAt: string, signal?: AbortSignal): Promise<Certification> {
+        const response = await detectEditConflict(
+            api.put<ApiResponse<Certification>>(`/certifications/${id}`, { ...data, expectedUpdatedAt }, { signal }),
+            certificationSchema,
+            'PUT /certifications/:id'
+        );
         if (response.data.success && response.data.data) {
-            return response.data.data;
+            queryCache.invalidate(queryKeys.certifications);
+            return parseResponse(certificationSchema, response.data.data, 'PUT /certifications/:id');
         }
         throw new Error(response.data.error || 'Failed to update certification');
     },
 
-    async delete(id: string): Promise<void> {
-        const response = await api.delete<ApiResponse<void>>(`/certifications/${id}`);
+    async delete(id: string, signal?: AbortSignal): Promise<void> {
+        const response = await api.delete<ApiResponse<void>>(`/certifications/${id}`, { signal });
         if (!response.data.success) {
             throw new Error(response.data.error || 'Failed to delete certification');
         }
+        queryCache.invalidate(queryKeys.certifications);
     },
 };
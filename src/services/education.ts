@@ -1,43 +1,64 @@
 import api from './api';
-import type { Education, ApiResponse } from '@/types';
+import { queryCache, queryKeys } from '@/lib/queryCache';
+import { toPaginated } from '@/lib/pagination';
+import type { Education, ApiResponse, ListParams, Paginated } from '@/types';
+import { educationSchema } from '@/types/schemas';
+import { parseResponse } from '@/lib/responseValidation';
+import { detectEditConflict } from '@/lib/editConflict';
 
 export const educationService = {
-    async getAll(): Promise<Education[]> {
-        const response = await api.get<ApiResponse<Education[]>>('/education');
+    async getAll(signal?: AbortSignal): Promise<Education[]> {
+        const response = await api.get<ApiResponse<Education[]>>('/education', { signal });
         if (response.data.success && response.data.data) {
-            return response.data.data;
+            return parseResponse(educationSchema.array(), response.data.data, 'GET /education');
         }
         throw new Error(response.data.error || 'Failed to fetch education');
     },
 
-    async getById(id: string): Promise<Education> {
-        const response = await api.get<ApiResponse<Education>>(`/education/${id}`);
+    async list(params: ListParams = {}, signal?: AbortSignal): Promise<Paginated<Education>> {
+        const response = await api.get<ApiResponse<Education[]>>('/education', { params, signal });
         if (response.data.success && response.data.data) {
-            return response.data.data;
+            const items = parseResponse(educationSchema.array(), response.data.data, 'GET /education');
+            return toPaginated(items, response.data.meta, params);
         }
         throw new Error(response.data.error || 'Failed to fetch education');
     },
 
-    async create(data: { year: string; institutionName: string; description?: string }): Promise<Education> {
-        const response = await api.post<ApiResponse<Education>>('/education', data);
+    async getById(id: string, signal?: AbortSignal): Promise<Education> {
+        const response = await api.get<ApiResponse<Education>>(`/education/${id}`, { signal });
         if (response.data.success && response.data.data) {
-            return response.data.data;
+            return parseResponse(educationSchema, response.data.data, 'GET /education/:id');
+        }
+        throw new Error(response.data.error || 'Failed to fetch education');
+    },
+
+    async create(data: { year: string; institutionName: string; description?: string }, signal?: AbortSignal): Promise<Education> {
+        const response = await api.post<ApiResponse<Education>>('/education', data, { signal });
+        if (response.data.success && response.data.data) {
+            queryCache.invalidate(queryKeys.education);
+            return parseResponse(educationSchema, response.data.data, 'POST /education');
         }
         throw new Error(response.data.error || 'Failed to create education');
     },
 
-    async update(id: string, data: { year: string; institutionName: string; description?: string }): Promise<Education> {
-        const response = await api.put<ApiResponse<Education>>(`/education/${id}`, data);
+    async update(id: string, data: { year: string; institutionName: string; description?: string }, expectedUpdatedAt: string, signal?: AbortSignal): Promise<Education> {
+        const response = await detectEditConflict(
+            api.put<ApiResponse<Education>>(`/education/${id}`, { ...data, expectedUpdatedAt }, { signal }),
+            educationSchema,
+            'PUT /education/:id'
+        );
         if (response.data.success && response.data.data) {
-            return response.data.data;
+            queryCache.invalidate(queryKeys.education);
+            return parseResponse(educationSchema, response.data.data, 'PUT /education/:id');
         }
         throw new Error(response.data.error || 'Failed to update education');
     },
 
-    async delete(id: string): Promise<void> {
-        const response = await api.delete<ApiResponse<void>>(`/education/${id}`);
+    async delete(id: string, signal?: AbortSignal): Promise<void> {
+        const response = await api.delete<ApiResponse<void>>(`/education/${id}`, { signal });
         if (!response.data.success) {
             throw new Error(response.data.error || 'Failed to delete education');
         }
+        queryCache.invalidate(queryKeys.education);
     },
 };
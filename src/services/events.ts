@@ -0,0 +1,98 @@
+import { baseURL } from './api';
+import { authStorage } from '@/lib/authStorage';
+import { ApiError } from '@/lib/apiError';
+import { clientId } from '@/lib/clientId';
+import { config } from '@/lib/config';
+
+export interface EventStreamOptions {
+    signal: AbortSignal;
+    onOpen: () => void;
+    onMessage: (data: unknown) => void;
+}
+
+interface ServerSentEvent {
+    type: string;
+    data: string;
+}
+
+// Parses a text/event-stream body, calling onEvent for every complete event. Comment lines
+// (the backend's heartbeats) and fields other than `event` and `data` are ignored.
+async function readEvents(body: ReadableStream<Uint8Array>, onEvent: (event: ServerSentEvent) => void) {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let event: ServerSentEvent = { type: 'message', data: '' };
+
+    for (;;) {
+        const { value, done } = await reader.read();
+        if (done) return;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split(/\r?\n/);
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+            if (line === '') {
+                if (event.data) {
+                    onEvent({ type: event.type, data: event.data.slice(0, -1) });
+                }
+                event = { type: 'message', data: '' };
+                continue;
+            }
+            if (line.startsWith(':')) continue;
+
+            const separator = line.indexOf(':');
+            const field = separator === -1 ? line : line.slice(0, separator);
+            const fieldValue = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+            if (field === 'event') {
+                event.type = fieldValue;
+            } else if (field === 'data') {
+                event.data += `${fieldValue}\n`;
+            }
+        }
+    }
+}
+
+// EventSource can't send an Authorization header, so the stream is read through fetch instead.
+async function streamFromServer({ signal, onOpen, onMessage }: EventStreamOptions) {
+    const token = authStorage.getToken();
+    const response = await fetch(`${baseURL}/events`, {
+        headers: {
+            Accept: 'text/event-stream',
+            'X-Client-Id': clientId,
+            ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        cache: 'no-store',
+        signal,
+    });
+    if (!response.ok || !response.body) {
+        throw new ApiError('Live updates are unavailable', { status: response.status });
+    }
+
+    onOpen();
+    await readEvents(response.body, (event) => {
+        if (event.type !== 'change') return;
+
+        let data: unknown;
+        try {
+            data = JSON.parse(event.data);
+        } catch {
+            return;
+        }
+        onMessage(data);
+    });
+}
+
+export const eventsService = {
+    // Resolves when the server closes the stream and rejects when it can't be opened or drops.
+    async stream(options: EventStreamOptions): Promise<void> {
+        if (config.mockApi) {
+            const token = authStorage.getToken();
+            return (await import('@/mocks/events')).streamMockEvents({
+                ...options,
+                authorization: token ? `Bearer ${token}` : null,
+            });
+        }
+        return streamFromServer(options);
+    },
+};
@@ -1,5 +1,10 @@
 import api from './api';
-import type { Experience, ApiResponse } from '@/types';
+import { queryCache, queryKeys } from '@/lib/queryCache';
+import { toPaginated } from '@/lib/pagination';
+import type { Experience, ApiResponse, ListParams, Paginated } from '@/types';
+import { experienceSchema } from '@/types/schemas';
+import { parseResponse } from '@/lib/responseValidation';
+import { detectEditConflict } from '@/lib/editConflict';
 
 interface ExperienceCreateData {
     startYear: number;
@@ -11,42 +16,58 @@ interface ExperienceCreateData {
 }
 
 export const experienceService = {
-    async getAll(): Promise<Experience[]> {
-        const response = await api.get<ApiResponse<Experience[]>>('/experience');
+    async getAll(signal?: AbortSignal): Promise<Experience[]> {
+        const response = await api.get<ApiResponse<Experience[]>>('/experience', { signal });
         if (response.data.success && response.data.data) {
-            return response.data.data;
+            return parseResponse(experienceSchema.array(), response.data.data, 'GET /experience');
         }
         throw new Error(response.data.error || 'Failed to fetch experience');
     },
 
-    async getById(id: string): Promise<Experience> {
-        const response = await api.get<ApiResponse<Experience>>(`/experience/${id}`);
+    async list(params: ListParams = {}, signal?: AbortSignal): Promise<Paginated<Experience>> {
+        const response = await api.get<ApiResponse<Experience[]>>('/experience', { params, signal });
         if (response.data.success && response.data.data) {
-            return response.data.data;
+            const items = parseResponse(experienceSchema.array(), response.data.data, 'GET /experience');
+            return toPaginated(items, response.data.meta, params);
         }
         throw new Error(response.data.error || 'Failed to fetch experience');
     },
 
-    async create(data: ExperienceCreateData): Promise<Experience> {
-        const response = await api.post<ApiResponse<Experience>>('/experience', data);
+    async getById(id: string, signal?: AbortSignal): Promise<Experience> {
+        const response = await api.get<ApiResponse<Experience>>(`/experience/${id}`, { signal });
         if (response.data.success && response.data.data) {
-            return response.data.data;
+            return parseResponse(experienceSchema, response.data.data, 'GET /experience/:id');
+        }
+        throw new Error(response.data.error || 'Failed to fetch experience');
+    },
+
+    async create(data: ExperienceCreateData, signal?: AbortSignal): Promise<Experience> {
+        const response = await api.post<ApiResponse<Experience>>('/experience', data, { signal });
+        if (response.data.success && response.data.data) {
+            queryCache.invalidate(queryKeys.experience);
+            return parseResponse(experienceSchema, response.data.data, 'POST /experience');
         }
         throw new Error(response.data.error || 'Failed to create experience');
     },
 
-    async update(id: string, data: ExperienceCreateData): Promise<Experience> {
-        const response = await api.put<ApiResponse<Experience>>(`/experience/${id}`, data);
+    async update(id: string, data: ExperienceCreateData, expectedUpdatedAt: string, signal?: AbortSignal): Promise<Experience> {
+        const response = await detectEditConflict(
+            api.put<ApiResponse<Experience>>(`/experience/${id}`, { ...data, expectedUpdatedAt }, { signal }),
+            experienceSchema,
+            'PUT /experience/:id'
+        );
         if (response.data.success && response.data.data) {
-            return response.data.data;
+            queryCache.invalidate(queryKeys.experience);
+            return parseResponse(experienceSchema, response.data.data, 'PUT /experience/:id');
         }
         throw new Error(response.data.error || 'Failed to update experience');
     },
 
-    async delete(id: string): Promise<void> {
-        const response = await api.delete<ApiResponse<void>>(`/experience/${id}`);
+    async delete(id: string, signal?: AbortSignal): Promise<void> {
+        const response = await api.delete<ApiResponse<void>>(`/experience/${id}`, { signal });
         if (!response.data.success) {
             throw new Error(response.data.error || 'Failed to delete experience');
         }
+        queryCache.invalidate(queryKeys.experience);
     },
 };
@@ -1,47 +1,96 @@
-import api from './api';
-import type { Project, ApiResponse } from '@/types';
+import api, { trackUploadProgress } from './api';
+import { queryCache, queryKeys } from '@/lib/queryCache';
+import { toPaginated } from '@/lib/pagination';
+import type { Project, ProjectRevision, ApiResponse, Paginated, ProjectListParams, UploadProgressHandler } from '@/types';
+import { projectRevisionSchema, projectSchema } from '@/types/schemas';
+import { parseResponse } from '@/lib/responseValidation';
+import { detectEditConflict } from '@/lib/editConflict';
 
 export const projectsService = {
-    async getAll(): Promise<Project[]> {
-        const response = await api.get<ApiResponse<Project[]>>('/projects');
+    async getAll(signal?: AbortSignal): Promise<Project[]> {
+        const response = await api.get<ApiResponse<Project[]>>('/projects', { signal });
         if (response.data.success && response.data.data) {
-            return response.data.data;
+            return parseResponse(projectSchema.array(), response.data.data, 'GET /projects');
         }
         throw new Error(response.data.error || 'Failed to fetch projects');
     },
 
-    async getBySlug(slug: string): Promise<Project> {
-        const response = await api.get<ApiResponse<Project>>(`/projects/${slug}`);
+    async list(params: ProjectListParams = {}, signal?: AbortSignal): Promise<Paginated<Project>> {
+        const response = await api.get<ApiResponse<Project[]>>('/projects', { params, signal });
         if (response.data.success && response.data.data) {
-            return response.data.data;
+            const items = parseResponse(projectSchema.array(), response.data.data, 'GET /projects');
+            return toPaginated(items, response.data.meta, params);
+        }
+        throw new Error(response.data.error || 'Failed to fetch projects');
+    },
+
+    async getBySlug(slug: string, signal?: AbortSignal): Promise<Project> {
+        const response = await api.get<ApiResponse<Project>>(`/projects/${slug}`, { signal });
+        if (response.data.success && response.data.data) {
+            return parseResponse(projectSchema, response.data.data, 'GET /projects/:slug');
         }
         throw new Error(response.data.error || 'Failed to fetch project');
     },
 
-    async create(data: FormData): Promise<Project> {
+    async create(data: FormData, signal?: AbortSignal, onProgress?: UploadProgressHandler): Promise<Project> {
         const response = await api.post<ApiResponse<Project>>('/projects', data, {
             headers: { 'Content-Type': 'multipart/form-data' },
+            signal,
+            onUploadProgress: trackUploadProgress(onProgress),
         });
         if (response.data.success && response.data.data) {
-            return response.data.data;
+            queryCache.invalidate(queryKeys.projects);
+            return parseResponse(projectSchema, response.data.data, 'POST /projects');
         }
         throw new Error(response.data.error || 'Failed to create project');
     },
 
-    async update(id: string, data: FormData): Promise<Project> {
-        const response = await api.put<ApiResponse<Project>>(`/projects/${id}`, data, {
-            headers: { 'Content-Type': 'multipart/form-data' },
-        });
+    async update(id: string, data: FormData, expectedUpdatedAt: string, signal?: AbortSignal, onProgress?: UploadProgressHandler): Promise<Project> {
+        data.set('expectedUpdatedAt', expectedUpdatedAt);
+        const response = await detectEditConflict(
+            api.put<ApiResponse<Project>>(`/projects/${id}`, data, {
+                headers: { 'Content-Type': 'multipart/form-data' },
+                signal,
+                onUploadProgress: trackUploadProgress(onProgress),
+            }),
+            projectSchema,
+            'PUT /projects/:id'
+        );
         if (response.data.success && response.data.data) {
-            return response.data.data;
+            queryCache.invalidate(queryKeys.projects, queryKeys.projectRevisions);
+            return parseResponse(projectSchema, response.data.data, 'PUT /projects/:id');
         }
         throw new Error(response.data.error || 'Failed to update project');
     },
 
-    async delete(id: string): Promise<void> {
-        const response = await api.delete<ApiResponse<void>>(`/projects/${id}`);
+    // Newest first; the first revision matches the project as it is now.
+    async getRevisions(id: string, signal?: AbortSignal): Promise<ProjectRevision[]> {
+        const response = await api.get<ApiResponse<ProjectRevision[]>>(`/projects/${id}/revisions`, { signal });
+        if (response.data.success && response.data.data) {
+            return parseResponse(projectRevisionSchema.array(), response.data.data, 'GET /projects/:id/revisions');
+        }
+        throw new Error(response.data.error || 'Failed to fetch project history');
+    },
+
+    // Applies an old revision to the project, which records it again as the newest revision.
+    async restoreRevision(id: string, revisionId: string, signal?: AbortSignal): Promise<Project> {
+        const response = await api.post<ApiResponse<Project>>(
+            `/projects/${id}/revisions/${revisionId}/restore`,
+            undefined,
+            { signal }
+        );
+        if (response.data.success && response.data.data) {
+            queryCache.invalidate(queryKeys.projects, queryKeys.projectRevisions);
+            return parseResponse(projectSchema, response.data.data, 'POST /projects/:id/revisions/:revisionId/restore');
+        }
+        throw new Error(response.data.error || 'Failed to restore revision');
+    },
+
+    async delete(id: string, signal?: AbortSignal): Promise<void> {
+        const response = await api.delete<ApiResponse<void>>(`/projects/${id}`, { signal });
         if (!response.data.success) {
             throw new Error(response.data.error || 'Failed to delete project');
         }
+        queryCache.invalidate(queryKeys.projects);
     },
 };
@@ -0,0 +1,26 @@
+import api from './api';
+import type { Session, ApiResponse } from '@/types';
+
+export const sessionsService = {
+    async getAll(signal?: AbortSignal): Promise<Session[]> {
+        const response = await api.get<ApiResponse<Session[]>>('/auth/sessions', { signal });
+        if (response.data.success && response.data.data) {
+            return response.data.data;
+        }
+        throw new Error(response.data.error || 'Failed to fetch sessions');
+    },
+
+    async revoke(id: string, signal?: AbortSignal): Promise<void> {
+        const response = await api.delete<ApiResponse<void>>(`/auth/sessions/${id}`, { signal });
+        if (!response.data.success) {
+            throw new Error(response.data.error || 'Failed to revoke session');
+        }
+    },
+
+    async revokeOthers(signal?: AbortSignal): Promise<void> {
+        const response = await api.delete<ApiResponse<void>>('/auth/sessions', { signal });
+        if (!response.data.success) {
+            throw new Error(response.data.error || 'Failed to revoke sessions');
+        }
+    },
+};
@@ -1,47 +1,73 @@
-import api from './api';
-import type { Skill, ApiResponse } from '@/types';
+import api, { trackUploadProgress } from './api';
+import { queryCache, queryKeys } from '@/lib/queryCache';
+import { toPaginated } from '@/lib/pagination';
+import type { Skill, ApiResponse, ListParams, Paginated, UploadProgressHandler } from '@/types';
+import { skillSchema } from '@/types/schemas';
+import { parseResponse } from '@/lib/responseValidation';
+import { detectEditConflict } from '@/lib/editConflict';
 
 export const skillsService = {
-    async getAll(): Promise<Skill[]> {
-        const response = await api.get<ApiResponse<Skill[]>>('/skills');
+    async getAll(signal?: AbortSignal): Promise<Skill[]> {
+        const response = await api.get<ApiResponse<Skill[]>>('/skills', { signal });
         if (response.data.success && response.data.data) {
-            return response.data.data;
+            return parseResponse(skillSchema.array(), response.data.data, 'GET /skills');
         }
         throw new Error(response.data.error || 'Failed to fetch skills');
     },
 
-    async getById(id: string): Promise<Skill> {
-        const response = await api.get<ApiResponse<Skill>>(`/skills/${id}`);
+    async list(params: ListParams = {}, signal?: AbortSignal): Promise<Paginated<Skill>> {
+        const response = await api.get<ApiResponse<Skill[]>>('/skills', { params, signal });
         if (response.data.success && response.data.data) {
-            return response.data.data;
+            const items = parseResponse(skillSchema.array(), response.data.data, 'GET /skills');
+            return toPaginated(items, response.data.meta, params);
+        }
+        throw new Error(response.data.error || 'Failed to fetch skills');
+    },
+
+    async getById(id: string, signal?: AbortSignal): Promise<Skill> {
+        const response = await api.get<ApiResponse<Skill>>(`/skills/${id}`, { signal });
+        if (response.data.success && response.data.data) {
+            return parseResponse(skillSchema, response.data.data, 'GET /skills/:id');
         }
         throw new Error(response.data.error || 'Failed to fetch skill');
     },
 
-    async create(data: FormData): Promise<Skill> {
+    async create(data: FormData, signal?: AbortSignal, onProgress?: UploadProgressHandler): Promise<Skill> {
         const response = await api.post<ApiResponse<Skill>>('/skills', data, {
             headers: { 'Content-Type': 'multipart/form-data' },
+            signal,
+            onUploadProgress: trackUploadProgress(onProgress),
         });
         if (response.data.success && response.data.data) {
-            return response.data.data;
+            queryCache.invalidate(queryKeys.skills, queryKeys.projects, queryKeys.experience, queryKeys.certifications);
+            return parseResponse(skillSchema, response.data.data, 'POST /skills');
         }
         throw new Error(response.data.error || 'Failed to create skill');
     },
 
-    async update(id: string, data: FormData): Promise<Skill> {
-        const response = await api.put<ApiResponse<Skill>>(`/skills/${id}`, data, {
-            headers: { 'Content-Type': 'multipart/form-data' },
-        });
+    async update(id: string, data: FormData, expectedUpdatedAt: string, signal?: AbortSignal, onProgress?: UploadProgressHandler): Promise<Skill> {
+        data.set('expectedUpdatedAt', expectedUpdatedAt);
+        const response = await detectEditConflict(
+            api.put<ApiResponse<Skill>>(`/skills/${id}`, data, {
+                headers: { 'Content-Type': 'multipart/form-data' },
+                signal,
+                onUploadProgress: trackUploadProgress(onProgress),
+            }),
+            skillSchema,
+            'PUT /skills/:id'
+        );
         if (response.data.success && response.data.data) {
-            return response.data.data;
+            queryCache.invalidate(queryKeys.skills, queryKeys.projects, queryKeys.experience, queryKeys.certifications);
+            return parseResponse(skillSchema, response.data.data, 'PUT /skills/:id');
         }
         throw new Error(response.data.error || 'Failed to update skill');
     },
 
-    async delete(id: string): Promise<void> {
-        const response = await api.delete<ApiResponse<void>>(`/skills/${id}`);
+    async delete(id: string, signal?: AbortSignal): Promise<void> {
+        const response = await api.delete<ApiResponse<void>>(`/skills/${id}`, { signal });
         if (!response.data.success) {
             throw new Error(response.data.error || 'Failed to delete skill');
         }
+        queryCache.invalidate(queryKeys.skills, queryKeys.projects, queryKeys.experience, queryKeys.certifications);
     },
 };
@@ -0,0 +1,35 @@
+import api from './api';
+import type { TeamMember, InviteData, UserRole, ApiResponse } from '@/types';
+
+export const teamService = {
+    async getAll(signal?: AbortSignal): Promise<TeamMember[]> {
+        const response = await api.get<ApiResponse<TeamMember[]>>('/team', { signal });
+        if (response.data.success && response.data.data) {
+            return response.data.data;
+        }
+        throw new Error(response.data.error || 'Failed to fetch team members');
+    },
+
+    async invite(data: InviteData, signal?: AbortSignal): Promise<TeamMember> {
+        const response = await api.post<ApiResponse<TeamMember>>('/team/invitations', data, { signal });
+        if (response.data.success && response.data.data) {
+            return response.data.data;
+        }
+        throw new Error(response.data.error || 'Failed to send invitation');
+    },
+
+    async updateRole(id: string, role: UserRole, signal?: AbortSignal): Promise<TeamMember> {
+        const response = await api.put<ApiResponse<TeamMember>>(`/team/${id}`, { role }, { signal });
+        if (response.data.success && response.data.data) {
+            return response.data.data;
+        }
+        throw new Error(response.data.error || 'Failed to update role');
+    },
+
+    async remove(id: string, signal?: AbortSignal): Promise<void> {
+        const response = await api.delete<ApiResponse<void>>(`/team/${id}`, { signal });
+        if (!response.data.success) {
+            throw new Error(response.data.error || 'Failed to remove team member');
+        }
+    },
+};
@@ -0,0 +1,35 @@
+import api from './api';
+import type { TwoFactorSetup, ApiResponse } from '@/types';
+
+export const twoFactorService = {
+    async setup(signal?: AbortSignal): Promise<TwoFactorSetup> {
+        const response = await api.post<ApiResponse<TwoFactorSetup>>('/auth/2fa/setup', undefined, { signal });
+        if (response.data.success && response.data.data) {
+            return response.data.data;
+        }
+        throw new Error(response.data.error || 'Failed to start two-factor setup');
+    },
+
+    async enable(code: string, signal?: AbortSignal): Promise<string[]> {
+        const response = await api.post<ApiResponse<{ recoveryCodes: string[] }>>('/auth/2fa/enable', { code }, { signal });
+        if (response.data.success && response.data.data) {
+            return response.data.data.recoveryCodes;
+        }
+        throw new Error(response.data.error || 'Failed to enable two-factor authentication');
+    },
+
+    async disable(code: string, signal?: AbortSignal): Promise<void> {
+        const response = await api.post<ApiResponse<void>>('/auth/2fa/disable', { code }, { signal });
+        if (!response.data.success) {
+            throw new Error(response.data.error || 'Failed to disable two-factor authentication');
+        }
+    },
+
+    async regenerateRecoveryCodes(code: string, signal?: AbortSignal): Promise<string[]> {
+        const response = await api.post<ApiResponse<{ recoveryCodes: string[] }>>('/auth/2fa/recovery-codes', { code }, { signal });
+        if (response.data.success && response.data.data) {
+            return response.data.data.recoveryCodes;
+        }
+        throw new Error(response.data.error || 'Failed to regenerate recovery codes');
+    },
+};
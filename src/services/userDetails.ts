@@ -1,31 +1,46 @@
-import api from './api';
-import type { UserDetails, ApiResponse } from '@/types';
+import api, { trackUploadProgress } from './api';
+import { queryCache, queryKeys } from '@/lib/queryCache';
+import type { UserDetails, ApiResponse, UploadProgressHandler } from '@/types';
+import { userDetailsSchema } from '@/types/schemas';
+import { parseResponse } from '@/lib/responseValidation';
+import { detectEditConflict } from '@/lib/editConflict';
 
 export const userDetailsService = {
-    async get(): Promise<UserDetails | null> {
-        const response = await api.get<ApiResponse<UserDetails>>('/user');
+    async get(signal?: AbortSignal): Promise<UserDetails | null> {
+        const response = await api.get<ApiResponse<UserDetails>>('/user', { signal });
         if (response.data.success && response.data.data) {
-            return response.data.data;
+            return parseResponse(userDetailsSchema, response.data.data, 'GET /user');
         }
         return null;
     },
 
-    async create(data: FormData): Promise<UserDetails> {
+    async create(data: FormData, signal?: AbortSignal, onProgress?: UploadProgressHandler): Promise<UserDetails> {
         const response = await api.post<ApiResponse<UserDetails>>('/user', data, {
             headers: { 'Content-Type': 'multipart/form-data' },
+            signal,
+            onUploadProgress: trackUploadProgress(onProgress),
         });
         if (response.data.success && response.data.data) {
-            return response.data.data;
+            queryCache.invalidate(queryKeys.userDetails);
+            return parseResponse(userDetailsSchema, response.data.data, 'POST /user');
         }
         throw new Error(response.data.error || 'Failed to create user details');
     },
 
-    async update(data: FormData): Promise<UserDetails> {
-        const response = await api.put<ApiResponse<UserDetails>>('/user', data, {
-            headers: { 'Content-Type': 'multipart/form-data' },
-        });
+    async update(data: FormData, expectedUpdatedAt: string, signal?: AbortSignal, onProgress?: UploadProgressHandler): Promise<UserDetails> {
+        data.set('expectedUpdatedAt', expectedUpdatedAt);
+        const response = await detectEditConflict(
+            api.put<ApiResponse<UserDetails>>('/user', data, {
+                headers: { 'Content-Type': 'multipart/form-data' },
+                signal,
+                onUploadProgress: trackUploadProgress(onProgress),
+            }),
+            userDetailsSchema,
+            'PUT /user'
+        );
         if (response.data.success && response.data.data) {
-            return response.data.data;
+            queryCache.invalidate(queryKeys.userDetails);
+            return parseResponse(userDetailsSchema, response.data.data, 'PUT /user');
         }
         throw new Error(response.data.error || 'Failed to update user details');
     },
@@ -1,31 +1,93 @@
 import { create } from 'zustand';
 import type { User } from '@/types';
 import { authService } from '@/services/auth';
+import { AUTH_STORAGE_KEYS, authStorage } from '@/lib/authStorage';
+import { ApiError } from '@/lib/apiError';
+import { queryCache } from '@/lib/queryCache';
 
 interface AuthState {
     user: User | null;
     isAuthenticated: boolean;
     isLoading: boolean;
     setUser: (user: User | null) => void;
-    logout: () => void;
-    checkAuth: () => void;
+    logout: () => Promise<void>;
+    syncFromStorage: () => void;
+    checkAuth: () => Promise<void>;
 }
 
-export const useAuthStore = create<AuthState>((set) => ({
+let pendingCheck: Promise<void> | null = null;
+
+// Cached lists belong to whoever fetched them; never show them to the next user of this tab.
+const clearCacheOnUserChange = (previous: User | null, next: User | null) => {
+    if (previous?.id !== next?.id) {
+        queryCache.clear();
+    }
+};
+
+export const useAuthStore = create<AuthState>((set, get) => ({
     user: authService.getStoredUser(),
     isAuthenticated: authService.isAuthenticated(),
-    isLoading: false,
+    isLoading: authService.isAuthenticated(),
 
-    setUser: (user) => set({ user, isAuthenticated: !!user }),
+    setUser: (user) => {
+        clearCacheOnUserChange(get().user, user);
+        set({ user, isAuthenticated: !!user, isLoading: false });
+    },
 
-    logout: () => {
-        authService.logout();
+    logout: async () => {
+        await authService.logout();
+        queryCache.clear();
         set({ user: null, isAuthenticated: false });
     },
 
-    checkAuth: () => {
+    syncFromStorage: () => {
         const user = authService.getStoredUser();
         const isAuthenticated = authService.isAuthenticated();
+        clearCacheOnUserChange(get().user, user);
         set({ user, isAuthenticated });
     },
+
+    checkAuth: () => {
+        if (pendingCheck) return pendingCheck;
+
+        if (!authService.isAuthenticated()) {
+            set({ user: null, isAuthenticated: false, isLoading: false });
+            return Promise.resolve();
+        }
+
+        set({ isLoading: true });
+        pendingCheck = authService
+            .getMe()
+            .then((user) => {
+                set({ user, isAuthenticated: true });
+            })
+            .catch((error) => {
+                // Only a rejected token ends the session; a flaky network keeps the cached user.
+                const status = error instanceof ApiError ? error.status : null;
+                if (status === 401 || status === 403 || !get().user) {
+                    authStorage.clear();
+                    set({ user: null, isAuthenticated: false });
+                }
+            })
+            .finally(() => {
+                set({ isLoading: false });
+                pendingCheck = null;
+            });
+
+        return pendingCheck;
+    },
 }));
+
+// Keep every open tab in step with logins and logouts that happen in another tab.
+window.addEventListener('storage', (event) => {
+    if (event.storageArea !== localStorage) return;
+    if (event.key !== null && !AUTH_STORAGE_KEYS.includes(event.key)) return;
+
+    const previousUser = useAuthStore.getState().user;
+    useAuthStore.getState().syncFromStorage();
+    const { user, isAuthenticated } = useAuthStore.getState();
+
+    if (isAuthenticated && previousUser && user && previousUser.id !== user.id) {
+        window.location.reload();
+    }
+});
@@ -0,0 +1,148 @@
+import { create } from 'zustand';
+import { isAxiosError } from 'axios';
+import { endSession, refreshAccessToken } from '@/services/api';
+import { eventsService } from '@/services/events';
+import { ApiError, isAbortError } from '@/lib/apiError';
+import { clientId } from '@/lib/clientId';
+import { queryCache, queryKeys } from '@/lib/queryCache';
+import { waitForRetry } from '@/lib/retry';
+import { entityChangeEventSchema } from '@/types/schemas';
+import type { EntityChangeEvent } from '@/types';
+
+export type LiveUpdatesStatus = 'idle' | 'connecting' | 'open' | 'reconnecting';
+
+interface LiveUpdatesState {
+    status: LiveUpdatesStatus;
+    // Latest remote change per item, keyed by remoteChangeKey().
+    remoteChanges: Record<string, EntityChangeEvent>;
+    connect: () => () => void;
+}
+
+const RECONNECT_BASE_DELAY_MS = 1_000;
+const RECONNECT_MAX_DELAY_MS = 30_000;
+const INVALIDATE_DELAY_MS = 250;
+
+// Lists that embed skills go stale when a skill is renamed or deleted, and every project
+// save adds a revision to its history.
+const DEPENDENT_KEYS: Partial<Record<EntityChangeEvent['resource'], string[]>> = {
+    skills: [queryKeys.experience, queryKeys.certifications, queryKeys.projects],
+    projects: [queryKeys.projectRevisions],
+};
+
+export const remoteChangeKey = (resource: EntityChangeEvent['resource'], id: string) => `${resource}:${id}`;
+
+const pendingKeys = new Set<string>();
+let invalidateTimer: number | undefined;
+
+// A burst of events, e.g. from a bulk import, ends up as one refetch per list.
+const scheduleInvalidation = (keys: string[]) => {
+    keys.forEach((key) => pendingKeys.add(key));
+    if (invalidateTimer !== undefined) return;
+
+    invalidateTimer = window.setTimeout(() => {
+        invalidateTimer = undefined;
+        queryCache.invalidate(...pendingKeys);
+        pendingKeys.clear();
+    }, INVALIDATE_DELAY_MS);
+};
+
+const handleMessage = (data: unknown) => {
+    const result = entityChangeEventSchema.safeParse(data);
+    if (!result.success || result.data.origin === clientId) return;
+
+    const event = result.data;
+    useLiveUpdatesStore.setState((state) => ({
+        remoteChanges: { ...state.remoteChanges, [remoteChangeKey(event.resource, event.id)]: event },
+    }));
+    scheduleInvalidation([event.resource, ...(DEPENDENT_KEYS[event.resource] ?? [])]);
+};
+
+// Half fixed, half jitter: open tabs spread out after an outage without hammering a server
+// that keeps dropping the connection.
+const getReconnectDelay = (attempt: number) => {
+    const ceiling = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** attempt);
+    return Math.round(ceiling / 2 + (Math.random() * ceiling) / 2);
+};
+
+const waitUntilOnline = (signal: AbortSignal) =>
+    new Promise<void>((resolve) => {
+        if (navigator.onLine || signal.aborted) {
+            resolve();
+            return;
+        }
+
+        const done = () => {
+            window.removeEventListener('online', done);
+            signal.removeEventListener('abort', done);
+            resolve();
+        };
+        window.addEventListener('online', done);
+        signal.addEventListener('abort', done);
+    });
+
+// An idle tab makes no other requests that would renew an expired access token, so the stream
+// does it itself. Resolves false when the session is over and the loop should stop.
+const renewAccessToken = async (signal: AbortSignal): Promise<boolean> => {
+    try {
+        await refreshAccessToken(signal);
+        return true;
+    } catch (error) {
+        if (isAbortError(error)) return false;
+        // Unreachable rather than refused: try again with the next attempt.
+        if (isAxiosError(error) && !error.response) return true;
+        endSession();
+        return false;
+    }
+};
+
+async function keepConnected(signal: AbortSignal) {
+    const setStatus = (status: LiveUpdatesStatus) => {
+        if (!signal.aborted) useLiveUpdatesStore.setState({ status });
+    };
+    let attempt = 0;
+    let hasConnected = false;
+
+    while (!signal.aborted) {
+        setStatus(attempt === 0 ? 'connecting' : 'reconnecting');
+        try {
+            await eventsService.stream({
+                signal,
+                onOpen: () => {
+                    // Anything that changed while we were disconnected was missed, so resync.
+                    if (hasConnected) {
+                        scheduleInvalidation(Object.values(queryKeys));
+                    }
+                    hasConnected = true;
+                    attempt = 0;
+                    setStatus('open');
+                },
+                onMessage: handleMessage,
+            });
+        } catch (error) {
+            if (error instanceof ApiError && error.status === 401 && !(await renewAccessToken(signal))) {
+                setStatus('idle');
+                return;
+            }
+        }
+        if (signal.aborted) return;
+
+        setStatus('reconnecting');
+        await waitUntilOnline(signal);
+        await waitForRetry(getReconnectDelay(attempt), signal).catch(() => undefined);
+        attempt += 1;
+    }
+}
+
+export const useLiveUpdatesStore = create<LiveUpdatesState>((set) => ({
+    status: 'idle',
+    remoteChanges: {},
+
+    connect: () => {
+        const controller = new AbortController();
+        keepConnected(controller.signal);
+        return () => {
+            controller.abort();
+            set({ status: 'idle', remoteChanges: {} });
+        };
+    },
+}));
@@ -0,0 +1,126 @@
+import { create } from 'zustand';
+import toast from 'react-hot-toast';
+import api from '@/services/api';
+import { authStorage } from '@/lib/authStorage';
+import { ApiError } from '@/lib/apiError';
+import {
+    describeEntry,
+    getExpectedVersion,
+    outbox,
+    rebaseEntry,
+    toRequestConfig,
+    type OutboxEntry,
+    type SyncedVersion,
+} from '@/lib/outbox';
+import { queryCache, queryKeys } from '@/lib/queryCache';
+import type { ApiResponse } from '@/types';
+
+export interface OutboxConflict {
+    id: number;
+    label: string;
+    message: string;
+}
+
+interface OutboxState {
+    pending: OutboxEntry[];
+    conflicts: OutboxConflict[];
+    isOnline: boolean;
+    isReplaying: boolean;
+    refresh: () => Promise<void>;
+    replay: () => Promise<void>;
+    dismissConflict: (id: number) => void;
+}
+
+// Statuses that say nothing about the change itself: no connection, an ended session, or a server
+// that can't take it right now. The entry stays queued for a later attempt.
+const isTransientStatus = (status: number | null): boolean =>
+    status === null || [401, 403, 429].includes(status) || status >= 500;
+
+const getOwnEntries = async () => {
+    const userId = authStorage.getUser()?.id ?? null;
+    return (await outbox.getAll()).filter((entry) => entry.userId === userId);
+};
+
+const replayEntries = async () => {
+    const entries = await getOwnEntries();
+    const syncedVersions = new Map<string, SyncedVersion>();
+    let processed = 0;
+
+    for (const queued of entries) {
+        const entry = rebaseEntry(queued, syncedVersions.get(queued.url));
+        try {
+            const response = await api.request<ApiResponse<{ updatedAt?: unknown }>>(toRequestConfig(entry));
+            if (response.data?.success === false) {
+                throw new ApiError(response.data.error || 'The server rejected this change', {
+                    status: response.status,
+                });
+            }
+
+            const from = getExpectedVersion(queued);
+            const to = response.data?.data?.updatedAt;
+            if (from && typeof to === 'string') {
+                syncedVersions.set(entry.url, { from, to });
+            }
+        } catch (error) {
+            // Leave this entry and everything after it for the next attempt.
+            if (!(error instanceof ApiError) || isTransientStatus(error.status)) break;
+
+            const conflict = { id: entry.id, label: describeEntry(entry), message: error.message };
+            useOutboxStore.setState((state) => ({ conflicts: [...state.conflicts, conflict] }));
+            toast.error(`${conflict.label} could not be synced: ${conflict.message}`);
+        }
+
+        await outbox.remove(entry.id);
+        processed += 1;
+    }
+
+    if (processed > 0) {
+        queryCache.invalidate(...Object.values(queryKeys));
+    }
+};
+
+export const useOutboxStore = create<OutboxState>((set, get) => ({
+    pending: [],
+    conflicts: [],
+    isOnline: navigator.onLine,
+    isReplaying: false,
+
+    refresh: async () => {
+        try {
+            set({ pending: await getOwnEntries() });
+        } catch {
+            set({ pending: [] });
+        }
+    },
+
+    replay: async () => {
+        if (get().isReplaying || !navigator.onLine || !authStorage.getToken()) return;
+
+        set({ isReplaying: true });
+        try {
+            // The lock keeps two open tabs from sending the same queued change twice.
+            await navigator.locks.request('outbox-replay', replayEntries);
+        } catch {
+            toast.error('Failed to sync offline changes');
+        } finally {
+            set({ isReplaying: false });
+        }
+    },
+
+    dismissConflict: (id) => {
+        set((state) => ({ conflicts: state.conflicts.filter((conflict) => conflict.id !== id) }));
+    },
+}));
+
+outbox.subscribe(() => {
+    useOutboxStore.getState().refresh();
+});
+
+window.addEventListener('online', () => {
+    useOutboxStore.setState({ isOnline: true });
+    useOutboxStore.getState().replay();
+});
+
+window.addEventListener('offline', () => {
+    useOutboxStore.setState({ isOnline: false });
+});
@@ -1,9 +1,21 @@
-export interface User {
-    id: string;
-    email: string;
-    username: string;
-    name: string;
-}
+import type { z } from 'zod';
+import type {
+    certificationSchema,
+    educationSchema,
+    entityChangeEventSchema,
+    experienceSchema,
+    projectSchema,
+    projectRevisionSchema,
+    skillSchema,
+    userDetailsSchema,
+    userRoleSchema,
+    userSchema,
+} from './schemas';
+
+// Domain types are derived from the response schemas in ./schemas so the two can't drift apart.
+export type UserRole = z.infer<typeof userRoleSchema>;
+
+export type User = z.infer<typeof userSchema>;
 
 export interface LoginCredentials {
     identifier: string;
@@ -17,87 +29,117 @@ export interface RegisterData {
     name: string;
 }
 
-export interface Skill {
-    id: string;
-    userId: string;
+export interface UpdateProfileData {
     name: string;
-    icon: string;
-    createdAt: string;
-    updatedAt: string;
+    email: string;
+    username: string;
 }
 
-export interface Experience {
-    id: string;
-    userId: string;
-    startYear: number;
-    endYear: number | null;
-    companyName: string;
-    description: string | null;
-    location: string;
-    createdAt: string;
-    updatedAt: string;
-    experienceSkills?: {
-        skill: Skill;
-    }[];
+export interface ChangePasswordData {
+    currentPassword: string;
+    newPassword: string;
 }
 
-export interface Education {
-    id: string;
-    userId: string;
-    year: string;
-    institutionName: string;
-    description: string | null;
-    createdAt: string;
-    updatedAt: string;
+export interface AuthTokens {
+    token: string;
+    refreshToken: string;
 }
 
-export interface Certification {
-    id: string;
-    userId: string;
-    name: string;
-    issuingOrganization: string;
-    year: number;
-    description: string | null;
-    certificateLink: string | null;
-    createdAt: string;
-    updatedAt: string;
-    certificationSkills?: {
-        skill: Skill;
-    }[];
+export interface AuthResponse extends AuthTokens {
+    user: User;
+}
+
+export interface TwoFactorChallenge {
+    twoFactorRequired: true;
+    challengeToken: string;
+}
+
+export type LoginResult =
+    | ({ status: 'authenticated' } & AuthResponse)
+    | { status: 'two_factor_required'; challengeToken: string };
+
+export interface TwoFactorVerifyData {
+    challengeToken: string;
+    code: string;
+}
+
+export interface TwoFactorSetup {
+    secret: string;
+    otpauthUri: string;
 }
 
-export interface Project {
+export interface Session {
     id: string;
-    userId: string;
-    title: string;
-    slug: string;
-    description: string;
-    content: string;
-    coverImage: string | null;
-    contentImages: string[];
-    publishedAt: string | null;
-    highlighted?: boolean;
+    device: string;
+    ipAddress: string | null;
+    lastSeenAt: string;
     createdAt: string;
-    updatedAt: string;
-    projectSkills?: {
-        skill: Skill;
-    }[];
+    current: boolean;
 }
 
-export interface UserDetails {
+export interface TeamMember {
     id: string;
-    userId: string;
-    name: string;
-    role: string;
-    description: string | null;
-    socialMedias: string[] | null;
-    profilePhoto: string | null;
+    email: string;
+    name: string | null;
+    role: UserRole;
+    status: 'active' | 'pending';
     createdAt: string;
-    updatedAt: string;
+}
+
+export interface InviteData {
+    email: string;
+    role: Exclude<UserRole, 'owner'>;
+}
+
+export type Skill = z.infer<typeof skillSchema>;
+
+export type Experience = z.infer<typeof experienceSchema>;
+
+export type Education = z.infer<typeof educationSchema>;
+
+export type Certification = z.infer<typeof certificationSchema>;
+
+export type Project = z.infer<typeof projectSchema>;
+
+export type ProjectRevision = z.infer<typeof projectRevisionSchema>;
+
+export type UserDetails = z.infer<typeof userDetailsSchema>;
+
+export type EntityChangeEvent = z.infer<typeof entityChangeEventSchema>;
+
+export type UploadProgressHandler = (percent: number) => void;
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface ListParams {
+    page?: number;
+    pageSize?: number;
+    q?: string;
+    sort?: string;
+    order?: SortOrder;
+}
+
+export interface ProjectListParams extends ListParams {
+    // ISO timestamps bounding publishedAt, inclusive.
+    publishedFrom?: string;
+    publishedTo?: string;
+}
+
+export interface PaginationMeta {
+    page: number;
+    pageSize: number;
+    total: number;
+    totalPages: number;
+}
+
+export interface Paginated<T> extends PaginationMeta {
+    items: T[];
 }
 
 export interface ApiResponse<T> {
     success: boolean;
     data?: T;
     error?: string;
+    errors?: Record<string, string>;
+    meta?: PaginationMeta;
 }
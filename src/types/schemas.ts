@@ -0,0 +1,116 @@
+import { z } from 'zod';
+
+export const userRoleSchema = z.enum(['owner', 'editor', 'viewer']);
+
+export const userSchema = z.object({
+    id: z.string(),
+    email: z.string(),
+    username: z.string(),
+    name: z.string(),
+    role: userRoleSchema.optional(),
+    twoFactorEnabled: z.boolean().optional(),
+});
+
+export const skillSchema = z.object({
+    id: z.string(),
+    userId: z.string(),
+    name: z.string(),
+    icon: z.string(),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+});
+
+const skillRelationSchema = z.array(z.object({ skill: skillSchema }));
+
+export const experienceSchema = z.object({
+    id: z.string(),
+    userId: z.string(),
+    startYear: z.number(),
+    endYear: z.number().nullable(),
+    companyName: z.string(),
+    description: z.string().nullable(),
+    location: z.string(),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+    experienceSkills: skillRelationSchema.optional(),
+});
+
+export const educationSchema = z.object({
+    id: z.string(),
+    userId: z.string(),
+    year: z.string(),
+    institutionName: z.string(),
+    description: z.string().nullable(),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+});
+
+export const certificationSchema = z.object({
+    id: z.string(),
+    userId: z.string(),
+    name: z.string(),
+    issuingOrganization: z.string(),
+    year: z.number(),
+    description: z.string().nullable(),
+    certificateLink: z.string().nullable(),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+    certificationSkills: skillRelationSchema.optional(),
+});
+
+export const projectSchema = z.object({
+    id: z.string(),
+    userId: z.string(),
+    title: z.string(),
+    slug: z.string(),
+    description: z.string(),
+    content: z.string(),
+    coverImage: z.string().nullable(),
+    contentImages: z.array(z.string()),
+    publishedAt: z.string().nullable(),
+    highlighted: z.boolean().optional(),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+    projectSkills: skillRelationSchema.optional(),
+});
+
+// A snapshot of a project taken on every save. Skills are copied by name so the history still
+// reads correctly after a skill is renamed or deleted.
+export const projectRevisionSchema = z.object({
+    id: z.string(),
+    projectId: z.string(),
+    title: z.string(),
+    slug: z.string(),
+    description: z.string(),
+    content: z.string(),
+    coverImage: z.string().nullable(),
+    contentImages: z.array(z.string()),
+    publishedAt: z.string().nullable(),
+    highlighted: z.boolean(),
+    skills: z.array(z.object({ id: z.string(), name: z.string() })),
+    author: z.object({ id: z.string(), name: z.string() }).nullable(),
+    // Set when the revision was created by restoring an older one.
+    restoredFrom: z.string().nullable(),
+    createdAt: z.string(),
+});
+
+export const userDetailsSchema = z.object({
+    id: z.string(),
+    userId: z.string(),
+    name: z.string(),
+    role: z.string(),
+    description: z.string().nullable(),
+    socialMedias: z.array(z.string()).nullable(),
+    profilePhoto: z.string().nullable(),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+});
+
+export const entityChangeEventSchema = z.object({
+    resource: z.enum(['skills', 'experience', 'education', 'certifications', 'projects', 'userDetails']),
+    action: z.enum(['created', 'updated', 'deleted']),
+    id: z.string(),
+    updatedAt: z.string().nullable(),
+    // Client id of the tab that made the change, so it can skip its own echoes.
+    origin: z.string().nullable().optional(),
+});